@@ -1,3 +1,19 @@
+/**
+ * A quadrature encoder on the joint's output, read by FirmataEncoder, to catch lost steps
+ */
+export type EncoderConfig = {
+  PIN_A: number;
+  PIN_B: number;
+  /**
+   * Encoder counts per revolution of the joint
+   */
+  COUNTS_PER_REV: number;
+  /**
+   * How far in degrees the encoder may disagree with the step count before it is step loss
+   */
+  TOLERANCE: number;
+};
+
 export type MotorConfig = {
   NAME: string;
   STEP_PIN: number;
@@ -16,8 +32,13 @@ export type MotorConfig = {
   RANGE: [number, number]; // range in degrees
   HOMING_SPEED: number; // Add homing speed in degrees per second
   HOMING_DIRECTION: "positive" | "negative"; // Add homing direction
+  ENCODER?: EncoderConfig;
 };
 
+/**
+ * The joints the code runs with. These are the built-in defaults, main.ts replaces them with
+ * the robot description file at startup (see lib/description.ts).
+ */
 export const JOINT_CONFIGS: Record<string, MotorConfig> = {
   J1: {
     NAME: "J1",
@@ -2,6 +2,21 @@ import EventEmitter from "events";
 
 export type FirmataType = {
   [key: string]: any;
+  MODES: {
+    INPUT: number;
+    OUTPUT: number;
+    PULLUP: number;
+    [key: string]: number;
+  };
+  HIGH: number;
+  LOW: number;
+  STEPPER: { TYPE: { DRIVER: number; [key: string]: number } };
+  pinMode: (pin: number, mode: number) => void;
+  digitalWrite: (pin: number, value: number) => void;
+  /**
+   * Reports the value of a digital pin whenever its port changes
+   */
+  digitalRead: (pin: number, callback: (value: number) => void) => void;
   accelStepperConfig: (options: {
     deviceNum: number;
     type: number;
@@ -26,5 +41,110 @@ export type FirmataType = {
      */
     callback?: (currentAbsSteps: number) => void
   ) => void;
+  /**
+   * Asks the arduino to move a stepper to an absolute position in steps
+   */
+  accelStepperTo: (
+    deviceNum: number,
+    position: number,
+    callback?: (currentAbsSteps: number) => void
+  ) => void;
   accelStepperStop: (deviceNum: number) => void;
+  /**
+   * Sets the current position of the stepper to zero, this is not a move
+   */
+  accelStepperZero: (deviceNum: number) => void;
+  accelStepperReportPosition: (
+    deviceNum: number,
+    callback: (position: number) => void
+  ) => void;
+  /**
+   * Groups accelStepper devices into a MultiStepper, whose moves all start and end together
+   * @param options.groupNum Group number (range 0-5)
+   * @param options.devices The accelStepper device numbers in the group
+   */
+  multiStepperConfig: (options: {
+    groupNum: number;
+    devices: number[];
+  }) => void;
+  /**
+   * Moves every stepper in a group to an absolute position in steps, at constant speeds
+   * chosen so they all arrive at the same time
+   * @param callback Called once the whole group has arrived
+   */
+  multiStepperTo: (
+    groupNum: number,
+    positions: number[],
+    callback?: () => void
+  ) => void;
+  /**
+   * Starts counting a quadrature encoder with FirmataEncoder
+   * @param options.encoderNum Encoder number (range 0-5)
+   */
+  encoderAttach: (options: {
+    encoderNum: number;
+    pinA: number;
+    pinB: number;
+  }) => void;
+  /**
+   * Asks the board for the count of an encoder
+   */
+  encoderReportPosition: (
+    encoderNum: number,
+    callback: (position: number) => void
+  ) => void;
+  /**
+   * Sets the count of an encoder to zero, this is not a move
+   */
+  encoderResetPosition: (encoderNum: number) => void;
 } & EventEmitter;
+
+// FirmataEncoder's sysex command and its subcommands
+const ENCODER_DATA = 0x61;
+const ENCODER_ATTACH = 0x00;
+const ENCODER_REPORT_POSITION = 0x01;
+const ENCODER_RESET_POSITION = 0x03;
+// Bytes per encoder in a position report: number and sign, then 4 bytes of 7 bits
+const ENCODER_REPORT_SIZE = 5;
+
+/**
+ * Adds the FirmataEncoder commands to a board, which firmata.js does not know about.
+ * Positions come back as "encoder-position-<encoderNum>" events.
+ * @param board A board from firmata.js.
+ * @returns The same board.
+ */
+export function addEncoderSupport(board: FirmataType): FirmataType {
+  // Handlers are shared by every board, and called on the one that got the response
+  board.clearSysexResponse(ENCODER_DATA);
+  board.sysexResponse(
+    ENCODER_DATA,
+    function (this: FirmataType, data: number[]) {
+      for (
+        let offset = 0;
+        offset + ENCODER_REPORT_SIZE <= data.length;
+        offset += ENCODER_REPORT_SIZE
+      ) {
+        const encoderNum = data[offset] & 0x3f;
+        const negative = (data[offset] & 0x40) !== 0;
+        const position =
+          data[offset + 1] |
+          (data[offset + 2] << 7) |
+          (data[offset + 3] << 14) |
+          (data[offset + 4] << 21);
+        this.emit(
+          `encoder-position-${encoderNum}`,
+          negative ? -position : position
+        );
+      }
+    }
+  );
+  board.encoderAttach = ({ encoderNum, pinA, pinB }) =>
+    board.sysexCommand([ENCODER_DATA, ENCODER_ATTACH, encoderNum, pinA, pinB]);
+  board.encoderReportPosition = (encoderNum, callback) => {
+    board.once(`encoder-position-${encoderNum}`, callback);
+    board.sysexCommand([ENCODER_DATA, ENCODER_REPORT_POSITION, encoderNum]);
+  };
+  board.encoderResetPosition = (encoderNum) =>
+    board.sysexCommand([ENCODER_DATA, ENCODER_RESET_POSITION, encoderNum]);
+  return board;
+}
@@ -1,7 +1,6 @@
-import { io } from "../main.ts";
-import five from "johnny-five";
 import pino from "pino";
 import { JOINT_CONFIGS, type MotorConfig } from "../config.ts";
+import { type FirmataType } from "./Firmata.ts";
 
 // Mapping of joint names (J1 - J6) to device numbers in accelStepper
 export const JointToDeviceMap = {
@@ -13,15 +12,37 @@ export const JointToDeviceMap = {
   J6: 5,
 };
 
-type JointName = keyof typeof JointToDeviceMap;
+export type JointName = keyof typeof JointToDeviceMap;
+
+/**
+ * Whether the joint knows where it is, homing lets it move without knowing
+ */
+export type HomingState = "unhomed" | "homing" | "homed";
+
+/**
+ * A joint's encoder disagrees with its step count by more than the encoder's TOLERANCE.
+ */
+export class StepLossError extends Error {
+  constructor(
+    public readonly joint: string,
+    public readonly commandedDegrees: number,
+    public readonly measuredDegrees: number
+  ) {
+    super(
+      `Joint ${joint} lost steps: at ${measuredDegrees.toFixed(
+        2
+      )} degrees by its encoder, ${commandedDegrees.toFixed(2)} by its steps.`
+    );
+    this.name = "StepLossError";
+  }
+}
 
 export default class Joint {
+  private io: FirmataType;
   private deviceNum: number;
   private STEPS_PER_REV: number;
-  private homeSwitch: five.Button;
-  private isHoming: boolean = false;
+  private homing: HomingState = "unhomed";
   private homeSwitchActivate: boolean = false;
-  private homed: boolean = false;
   private logger: pino.Logger;
   private name: string;
   private MAX_SPEED_IN_DEGREES: number;
@@ -44,31 +65,125 @@ export default class Joint {
   public static Instances: Joint[] = [];
   public static Map: Record<string, Joint> = {};
   private calibrationOffset: number = 0; // Calibration offset in degrees
+  private config: MotorConfig;
+  // Rejects every promise still waiting for the board to answer
+  private pendingReplies: Set<(error: Error) => void> = new Set();
+  // Throws when whatever drives the joint does not let it move right now
+  private moveGuard: () => void = () => {};
+  // Steps the board's count is behind where the joint is, set by resync()
+  private stepOffset: number = 0;
 
   // Current Degrees, will be updated after movement is done of stopped
   private degrees: number = 0;
   public get Degrees() {
     return this.degrees;
   }
+  // The last target the joint was sent to, in degrees
+  private commanded: number = 0;
+  public get Commanded() {
+    return this.commanded;
+  }
   public get Homed() {
-    return this.homed;
+    return this.homing === "homed";
+  }
+
+  public get HasEncoder() {
+    return this.config.ENCODER !== undefined;
   }
 
   public get Name() {
     return this.name;
   }
 
-  constructor(config: MotorConfig) {
+  /**
+   * The joint's accelStepper device number on the board
+   */
+  public get DeviceNum() {
+    return this.deviceNum;
+  }
+
+  constructor(config: MotorConfig, io: FirmataType) {
+    this.config = config;
     this.name = config.NAME;
     this.deviceNum = JointToDeviceMap[config.NAME];
 
     this.initializeLogger();
-    this.initializeStepper(config);
-    this.initializeHomeSwitch(config.HOME_SWITCH_PIN);
+    this.attach(io);
     Joint.Instances.push(this);
     Joint.Map[this.name] = this;
   }
 
+  /**
+   * Sets up the stepper and the home switch on a board, e.g. again after reconnecting.
+   * The joint has to be homed again afterwards.
+   * @param io - The board the joint is wired to.
+   */
+  public attach(io: FirmataType) {
+    this.io = io;
+    this.homeSwitchActivate = false;
+    this.initializeStepper(this.config);
+    this.initializeHomeSwitch(this.config.HOME_SWITCH_PIN);
+    if (this.config.ENCODER) {
+      this.io.encoderAttach({
+        encoderNum: this.deviceNum,
+        pinA: this.config.ENCODER.PIN_A,
+        pinB: this.config.ENCODER.PIN_B,
+      });
+    }
+  }
+
+  /**
+   * Gives up on the board, e.g. when the connection is lost: the joint no longer knows where
+   * it is, and every move or report still waiting for an answer is rejected.
+   * @param reason - Why, for the rejections.
+   */
+  public fault(reason: string) {
+    this.homing = "unhomed";
+    const error = new Error(`Joint ${this.Name}: ${reason}`);
+    this.pendingReplies.forEach((reject) => reject(error));
+    this.pendingReplies.clear();
+    this.logger.error(`Faulted: ${reason}`);
+  }
+
+  /**
+   * Sets a check that runs before every move, e.g. the Robot refusing moves while it is
+   * paused or emergency stopped. Stopping is never checked.
+   * @param guard - Throws to refuse the move.
+   */
+  public setMoveGuard(guard: () => void) {
+    this.moveGuard = guard;
+  }
+
+  /**
+   * A promise for an answer from the board, which fault() can reject.
+   */
+  private awaitReply<T>(
+    executor: (
+      resolve: (value: T) => void,
+      reject: (error: Error) => void
+    ) => void
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => this.pendingReplies.delete(reject);
+      this.pendingReplies.add(reject);
+      try {
+        executor(
+          (value) => {
+            settle();
+            resolve(value);
+          },
+          (error) => {
+            settle();
+            reject(error);
+          }
+        );
+      } catch (error) {
+        settle();
+        throw error;
+      }
+    });
+  }
+
   public setCalibrationOffset(offset: number) {
     this.calibrationOffset = offset;
     this.logger.info(`Calibration offset set to ${offset} degrees`);
@@ -86,6 +201,20 @@ export default class Joint {
     return (steps / this.STEPS_PER_REV) * 360;
   }
 
+  /**
+   * Converts an angle to a position in the board's step count.
+   */
+  private degreesToBoardSteps(degrees: number): number {
+    return this.convertDegreesToSteps(degrees) - this.stepOffset;
+  }
+
+  /**
+   * Converts a position in the board's step count to an angle.
+   */
+  private boardStepsToDegrees(steps: number): number {
+    return this.convertStepsToDegrees(steps + this.stepOffset);
+  }
+
   /**
    * Initializes the stepper motor with the given configuration.
    * @param config - The motor configuration.
@@ -97,9 +226,9 @@ export default class Joint {
     this.MAX_ACCELERATION_IN_DEGREES = config.MAX_ACCELERATION;
     this.HOMING_SPEED = config.HOMING_SPEED;
     this.HOMING_DIRECTION = config.HOMING_DIRECTION;
-    io.accelStepperConfig({
+    this.io.accelStepperConfig({
       deviceNum: this.deviceNum,
-      type: io.STEPPER.TYPE.DRIVER,
+      type: this.io.STEPPER.TYPE.DRIVER,
       stepPin: config.STEP_PIN,
       directionPin: config.DIR_PIN,
     });
@@ -110,7 +239,7 @@ export default class Joint {
   /**
    * Resets the speed and acceleration of the stepper motor to their maximum values.
    */
-  private async resetSpeedAndAcceleration() {
+  public async resetSpeedAndAcceleration() {
     this.setSpeed(this.MAX_SPEED_IN_DEGREES);
     this.setAcceleration(this.MAX_ACCELERATION_IN_DEGREES);
   }
@@ -120,14 +249,20 @@ export default class Joint {
    * @param pin - The pin number for the home switch.
    */
   private initializeHomeSwitch(pin: number) {
-    this.homeSwitch = new five.Button({
-      pin,
-      isPullup: true,
-      invert: false,
+    this.io.pinMode(pin, this.io.MODES.INPUT);
+    // Enable the pullup resistor, the switch reads HIGH when activated
+    this.io.digitalWrite(pin, this.io.HIGH);
+    let lastValue = this.io.LOW;
+    this.io.digitalRead(pin, (value) => {
+      // Reports arrive for every change on the port, not only this pin
+      if (value === lastValue) return;
+      lastValue = value;
+      if (value === this.io.HIGH) {
+        this.onHomeSwitchActivate();
+      } else {
+        this.onHomeSwitchDeactivate();
+      }
     });
-    this.homeSwitch.on("press", this.onHomeSwitchActivate.bind(this));
-    // this.homeSwitch.on("hold", this.onHomeSwitchActivate.bind(this));
-    this.homeSwitch.on("release", this.onHomeSwitchDeactivate.bind(this));
   }
 
   /**
@@ -145,15 +280,16 @@ export default class Joint {
   /**
    * Creates a new Joint instance based on the given joint name.
    * @param name - The name of the joint (e.g., J1, J2, etc.).
+   * @param io - The board the joint's stepper and home switch are wired to.
    * @returns A new Joint instance.
    * @throws If the motor configuration for the given name is not found.
    */
-  public static createJoint(name: JointName): Joint {
+  public static createJoint(name: JointName, io: FirmataType): Joint {
     const config = JOINT_CONFIGS[name];
     if (!config) {
       throw new Error(`Motor configuration for ${name} not found.`);
     }
-    return new Joint(config);
+    return new Joint(config, io);
   }
 
   /**
@@ -162,7 +298,7 @@ export default class Joint {
    */
   public setSpeed(speedInDegrees: number) {
     const steps = this.convertDegreesToSteps(speedInDegrees);
-    io.accelStepperSpeed(this.deviceNum, steps);
+    this.io.accelStepperSpeed(this.deviceNum, steps);
     this.currentSpeedInDegrees = speedInDegrees;
     this.logger.info(`Setting speed to ${speedInDegrees} degrees per second`);
   }
@@ -175,7 +311,7 @@ export default class Joint {
     const accelerationInSteps = this.convertDegreesToSteps(
       accelerationInDegrees
     );
-    io.accelStepperAcceleration(this.deviceNum, accelerationInSteps);
+    this.io.accelStepperAcceleration(this.deviceNum, accelerationInSteps);
     this.currentAcceleration = accelerationInDegrees;
     this.logger.info(
       `Setting acceleration to ${this.currentAcceleration} degrees per second squared`
@@ -187,8 +323,8 @@ export default class Joint {
    * @throws If the joint is not homed and not currently homing.
    */
   private ensureHomed() {
-    if (this.isHoming) return;
-    if (!this.homed) {
+    if (this.homing === "homing") return;
+    if (this.homing !== "homed") {
       throw new Error(
         `Joint ${this.Name} must be homed before performing this action.`
       );
@@ -201,7 +337,7 @@ export default class Joint {
    * @throws If the target degrees are out of range.
    */
   private ensureInRange(targetDegrees: number) {
-    if (this.isHoming) return;
+    if (this.homing === "homing") return;
     const [min, max] = this.RANGE;
     if (targetDegrees < min || targetDegrees > max) {
       throw new Error(
@@ -217,18 +353,26 @@ export default class Joint {
    */
   private step(steps: number, callback = (currentAbsSteps: number) => {}) {
     // special case for steps 0, as it is like not moving
-    if (steps !== 0) this.ensureHomed();
-    io.accelStepperStep(this.deviceNum, steps, callback);
+    if (steps !== 0) {
+      this.ensureHomed();
+      this.moveGuard();
+    }
+    this.io.accelStepperStep(this.deviceNum, steps, callback);
   }
 
   /**
    * Moves the stepper motor to a specific position in steps.
    * @param position - The target position in steps.
-   * @param callback - A callback function to execute after the movement is complete.
+   * @param callback - A callback function to execute after the movement is complete, left
+   * out when streaming so no listener is left waiting.
    */
-  private stepTo(position: number, callback = (currentAbsSteps: number) => {}) {
+  private stepTo(
+    position: number,
+    callback?: (currentAbsSteps: number) => void
+  ) {
     this.ensureHomed();
-    io.accelStepperTo(this.deviceNum, position, callback);
+    this.moveGuard();
+    this.io.accelStepperTo(this.deviceNum, position, callback);
   }
 
   /**
@@ -237,7 +381,7 @@ export default class Joint {
    */
   public async rotateBy(degrees: number) {
     if (degrees === 0) {
-      return new Promise<boolean>((resolve) => {
+      return this.awaitReply<boolean>((resolve) => {
         this.step(0, () => {
           resolve(true);
         });
@@ -247,12 +391,13 @@ export default class Joint {
     this.ensureHomed();
     const expectedDegrees = degrees + (await this.reportDegrees());
     this.ensureInRange(expectedDegrees);
+    this.commanded = expectedDegrees;
     const steps = this.convertDegreesToSteps(degrees);
     this.logger.info(`Rotating by ${degrees} degrees, ${steps} steps`);
 
-    return new Promise<boolean>((resolve) => {
+    return this.awaitReply<boolean>((resolve) => {
       this.step(steps, (currentAbsSteps) => {
-        this.degrees = this.convertStepsToDegrees(currentAbsSteps);
+        this.degrees = this.boardStepsToDegrees(currentAbsSteps);
         resolve(expectedDegrees === this.degrees);
       });
     });
@@ -265,22 +410,59 @@ export default class Joint {
   public async rotateTo(degrees: number) {
     this.ensureHomed();
     this.ensureInRange(degrees);
-    const steps = this.convertDegreesToSteps(degrees);
+    const steps = this.degreesToBoardSteps(degrees);
+    this.commanded = degrees;
     this.logger.info(`Rotating to ${degrees} degrees, ${steps} steps`);
-    return new Promise<boolean>((resolve) => {
+    return this.awaitReply<boolean>((resolve) => {
       this.stepTo(steps, (currentAbsSteps) => {
-        this.degrees = this.convertStepsToDegrees(currentAbsSteps);
+        this.degrees = this.boardStepsToDegrees(currentAbsSteps);
         resolve(degrees === this.degrees);
       });
     });
   }
 
+  /**
+   * Sets a new target without waiting for the joint to get there, for streaming setpoints.
+   * Where the joint is comes from reportDegrees().
+   * @param degrees - The target position in degrees.
+   */
+  public streamTo(degrees: number) {
+    this.stepTo(this.targetSteps(degrees));
+  }
+
+  /**
+   * Checks that the joint may move to a position, for moves sent on its behalf, e.g. by a
+   * JointGroup.
+   * @param degrees - The target position in degrees.
+   * @returns The target position in steps.
+   * @throws If the joint is not homed, the target is out of range or the move is refused.
+   */
+  public targetSteps(degrees: number): number {
+    this.ensureHomed();
+    this.ensureInRange(degrees);
+    this.moveGuard();
+    this.commanded = degrees;
+    return this.degreesToBoardSteps(degrees);
+  }
+
   /**
    * Homes the joint by moving it to its home position.
+   * @throws If the home switch was not found, the joint is unhomed afterwards.
    */
   public async home(): Promise<boolean> {
     this.logger.info("Homing joint");
-    this.isHoming = true;
+    this.homing = "homing";
+    try {
+      await this.findHome();
+      this.homing = "homed";
+      return true;
+    } catch (error) {
+      this.homing = "unhomed";
+      throw error;
+    }
+  }
+
+  private async findHome() {
     if (this.homeSwitchActivate) {
       this.logger.info(
         "Home switch is activate, rotate by 15 degrees away from the limit switch and home again"
@@ -290,8 +472,7 @@ export default class Joint {
       } else {
         await this.rotateBy(-15);
       }
-      const success = await this.home();
-      return success;
+      return this.findHome();
     }
 
     // Set the speed to the joint-specific homing speed
@@ -315,21 +496,7 @@ export default class Joint {
     this.logger.info("Reset speed and acceleration");
     await this.resetSpeedAndAcceleration();
 
-    let success = false;
-    if (this.homeSwitchActivate) {
-      await wait(500);
-      if (this.HOMING_DIRECTION === "negative") {
-        await this.rotateBy(-this.RANGE[0] + this.calibrationOffset);
-      } else {
-        await this.rotateBy(-this.RANGE[1] + this.calibrationOffset);
-      }
-      this.setPositionZero();
-      this.logger.info("Homing success");
-      this.homed = true;
-      success = true;
-    } else {
-      success = false;
-      this.homed = false;
+    if (!this.homeSwitchActivate) {
       this.logger.error(
         "Have traveled too far, and home switch is not activated"
       );
@@ -337,9 +504,14 @@ export default class Joint {
         "Homing failed. Have traveled too far, and home switch is not activated"
       );
     }
-
-    this.isHoming = false;
-    return success;
+    await wait(500);
+    if (this.HOMING_DIRECTION === "negative") {
+      await this.rotateBy(-this.RANGE[0] + this.calibrationOffset);
+    } else {
+      await this.rotateBy(-this.RANGE[1] + this.calibrationOffset);
+    }
+    this.setPositionZero();
+    this.logger.info("Homing success");
   }
 
   /**
@@ -347,7 +519,7 @@ export default class Joint {
    */
   public async stop() {
     this.logger.info("Stopping joint");
-    io.accelStepperStop(this.deviceNum);
+    this.io.accelStepperStop(this.deviceNum);
     // need to cancel the previous movement's acceleration
     this.logger.info("[START: Canceling previous acceleration]");
     const previousAcceleration = this.currentAcceleration;
@@ -358,28 +530,97 @@ export default class Joint {
   }
 
   /**
-   * Reports the current position of the joint in degrees.
+   * Asks the board where the joint is, and remembers it as Degrees.
    * @returns A promise that resolves to the current position in degrees.
    */
-  private reportDegrees(): Promise<number> {
-    return new Promise((resolve, reject) => {
-      io.accelStepperReportPosition(this.deviceNum, (position: number) => {
+  public reportDegrees(): Promise<number> {
+    return this.awaitReply((resolve, reject) => {
+      this.io.accelStepperReportPosition(this.deviceNum, (position: number) => {
         if (position === undefined) {
           reject(new Error("Failed to report position"));
         } else {
-          const degrees = (position / this.STEPS_PER_REV) * 360;
-          resolve(degrees);
+          this.degrees = this.boardStepsToDegrees(position);
+          resolve(this.degrees);
         }
       });
     });
   }
 
+  /**
+   * Asks the board where the joint's encoder says it is.
+   * @returns A promise that resolves to the measured position in degrees.
+   * @throws If the joint has no encoder.
+   */
+  public reportEncoderDegrees(): Promise<number> {
+    const encoder = this.config.ENCODER;
+    if (!encoder) {
+      throw new Error(`Joint ${this.Name} has no encoder.`);
+    }
+    return this.awaitReply((resolve) => {
+      this.io.encoderReportPosition(this.deviceNum, (position: number) => {
+        resolve((position / encoder.COUNTS_PER_REV) * 360);
+      });
+    });
+  }
+
+  /**
+   * Like reportDegrees(), and checks the step count against the encoder if the joint has one.
+   * @returns A promise that resolves to the current position in degrees by the step count.
+   * @throws StepLossError if they differ by more than the encoder's TOLERANCE.
+   */
+  public async verifyPosition(): Promise<number> {
+    if (!this.config.ENCODER || this.homing !== "homed") {
+      return this.reportDegrees();
+    }
+    const [degrees, measured] = await Promise.all([
+      this.reportDegrees(),
+      this.reportEncoderDegrees(),
+    ]);
+    if (Math.abs(measured - degrees) > this.config.ENCODER.TOLERANCE) {
+      throw new StepLossError(this.Name, degrees, measured);
+    }
+    return degrees;
+  }
+
+  /**
+   * Takes the encoder's word for where the joint is, after it lost steps. With correct, the
+   * joint then moves back to where its step count said it was.
+   * @param correct - Whether to make the correction move.
+   * @returns The position in degrees by the step count before re-syncing.
+   * @throws If the joint has no encoder or is not homed.
+   */
+  public async resync(correct = false): Promise<number> {
+    this.ensureHomed();
+    const [commanded, measured] = await Promise.all([
+      this.reportDegrees(),
+      this.reportEncoderDegrees(),
+    ]);
+    this.stepOffset += Math.round(
+      this.convertDegreesToSteps(measured - commanded)
+    );
+    this.degrees = measured;
+    this.logger.warn(
+      `Re-synced to the encoder at ${measured.toFixed(
+        2
+      )} degrees, the steps said ${commanded.toFixed(2)}`
+    );
+    if (correct) {
+      await this.rotateTo(commanded);
+    }
+    return commanded;
+  }
+
   /**
    * Sets the current position of the joint to zero.
    */
   private setPositionZero() {
-    io.accelStepperZero(this.deviceNum);
+    this.io.accelStepperZero(this.deviceNum);
+    if (this.config.ENCODER) {
+      this.io.encoderResetPosition(this.deviceNum);
+    }
+    this.stepOffset = 0;
     this.degrees = 0;
+    this.commanded = 0;
     this.logger.info("Setting position to zero");
   }
 
@@ -389,7 +630,9 @@ export default class Joint {
   private onHomeSwitchActivate() {
     this.homeSwitchActivate = true;
     this.logger.warn("Home switch activated");
-    this.stop();
+    this.stop().catch((error) =>
+      this.logger.warn(`Stopping at the home switch failed: ${error.message}`)
+    );
   }
 
   /**
@@ -405,7 +648,7 @@ export default class Joint {
    * @returns A string containing the joint's name, homed status, and current degrees.
    */
   public toString(): string {
-    return `Name: ${this.Name}, Homed: ${this.homed}, Degrees: ${this.degrees}. Speed: ${this.currentSpeedInDegrees}, Acceleration: ${this.currentAcceleration}`;
+    return `Name: ${this.Name}, Homed: ${this.Homed}, Degrees: ${this.degrees}. Speed: ${this.currentSpeedInDegrees}, Acceleration: ${this.currentAcceleration}`;
   }
 
   /**
@@ -415,7 +658,7 @@ export default class Joint {
     try {
       const position = await this.reportDegrees();
       this.logger.info(
-        { homed: this.homed, degrees: position.toFixed(3) },
+        { homed: this.Homed, degrees: position.toFixed(3) },
         "Joint status"
       );
     } catch (error) {
@@ -447,9 +690,9 @@ export default class Joint {
     );
   }
 
-  public static createAllJoints() {
+  public static createAllJoints(io: FirmataType) {
     return Object.keys(JOINT_CONFIGS).map((key) => {
-      return Joint.createJoint(key as JointName);
+      return Joint.createJoint(key as JointName, io);
     });
   }
 }
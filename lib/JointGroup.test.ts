@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import JointGroup from "./JointGroup.ts";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import type Joint from "./Joint.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+describe("JointGroup on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let joints: Joint[];
+  let group: JointGroup;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    const robot = new Robot(sim as unknown as FirmataType);
+    // Homing moves the joints one by one
+    const groupMove = vi.spyOn(sim, "multiStepperTo");
+    await runFor(robot.home(), 120_000);
+    expect(groupMove).not.toHaveBeenCalled();
+    joints = [robot.J1, robot.J2, robot.J3, robot.J4, robot.J5, robot.J6];
+    group = new JointGroup(sim as unknown as FirmataType, joints, 1);
+  });
+
+  afterEach(() => {
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  it("should move every joint so they arrive together", async () => {
+    const zero = joints.map((_, index) => sim.physicalDegrees(index));
+    const moved = () =>
+      joints.map((_, index) => sim.physicalDegrees(index) - zero[index]);
+    const done = vi.fn();
+    sim.on("multi-stepper-done-1", done);
+    const individuallyDone = vi.fn();
+    joints.forEach((joint) =>
+      sim.on(`stepper-done-${joint.DeviceNum}`, individuallyDone)
+    );
+
+    // J1 is the slowest to get there, at 20 degrees per second
+    const move = group.moveTo([40, 10, -10, 30, 20, 0]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    // Every joint has done the same share of its move
+    const halfway = moved();
+    [40, 10, -10, 30, 20].forEach((target, index) =>
+      expect(halfway[index] / target).toBeCloseTo(0.5, 1)
+    );
+    expect(halfway[5]).toBeCloseTo(0, 6);
+
+    const degrees = await runFor(move, 10_000);
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(individuallyDone).not.toHaveBeenCalled();
+    [40, 10, -10, 30, 20, 0].forEach((target, index) => {
+      expect(degrees[index]).toBeCloseTo(target, 1);
+      expect(joints[index].Degrees).toBeCloseTo(target, 1);
+      expect(moved()[index]).toBeCloseTo(target, 1);
+    });
+  });
+
+  it("should refuse a target any joint cannot reach, sending nothing", () => {
+    const groupMove = vi.spyOn(sim, "multiStepperTo");
+    expect(() => group.streamTo([0, 0, 60, 0, 0, 0])).toThrow(
+      /J3.*out of range \[-102, 38\]/
+    );
+    expect(() => group.streamTo([0, 0, 0])).toThrow(
+      "Expected 6 joint angles, got 3."
+    );
+    expect(groupMove).not.toHaveBeenCalled();
+  });
+
+  it("should reject a move still waiting on fault", async () => {
+    const move = group.moveTo([10, 0, 0, 0, 0, 0]);
+    await vi.advanceTimersByTimeAsync(100);
+    group.fault("Connection lost.");
+    await expect(move).rejects.toThrow("Group 1: Connection lost.");
+  });
+});
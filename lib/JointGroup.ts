@@ -0,0 +1,96 @@
+import pino from "pino";
+import { type FirmataType } from "./Firmata.ts";
+import type Joint from "./Joint.ts";
+
+/**
+ * Joints moved together by an AccelStepper MultiStepper group on the board.
+ *
+ * A group move sends one target per joint in a single command, the board picks the speeds
+ * that make every joint start and finish at the same time, and reports once when the whole
+ * group has arrived. Commands to a single joint, e.g. homing, still go to the joint itself
+ * and take it out of the group's move.
+ */
+export default class JointGroup {
+  private io: FirmataType;
+  private logger: pino.Logger;
+  // Rejects every move still waiting for the group to arrive
+  private pendingReplies: Set<(error: Error) => void> = new Set();
+
+  /**
+   * @param io - The board the joints are wired to.
+   * @param joints - The joints in the group, in the order targets are given.
+   * @param groupNum - The MultiStepper group number on the board (range 0-5).
+   */
+  constructor(io: FirmataType, private joints: Joint[], private groupNum = 0) {
+    this.logger = pino({
+      name: "JointGroup",
+      level: "info",
+      base: { name: "JointGroup" },
+      timestamp: pino.stdTimeFunctions.isoTime,
+    });
+    this.attach(io);
+  }
+
+  /**
+   * Configures the group on a board, e.g. again after reconnecting. The joints have to be
+   * attached to it first.
+   * @param io - The board the joints are wired to.
+   */
+  public attach(io: FirmataType) {
+    this.io = io;
+    this.io.multiStepperConfig({
+      groupNum: this.groupNum,
+      devices: this.joints.map((joint) => joint.DeviceNum),
+    });
+  }
+
+  /**
+   * Rejects every move still waiting for the group, e.g. when the connection is lost.
+   * @param reason - Why, for the rejections.
+   */
+  public fault(reason: string) {
+    const error = new Error(`Group ${this.groupNum}: ${reason}`);
+    this.pendingReplies.forEach((reject) => reject(error));
+    this.pendingReplies.clear();
+  }
+
+  /**
+   * Sets new targets without waiting for the joints to get there, for streaming setpoints.
+   * Where the joints are comes from their reportDegrees().
+   * @param degrees - The target of every joint in degrees.
+   * @throws If any joint may not move to its target, nothing is sent then.
+   */
+  public streamTo(degrees: number[]) {
+    this.io.multiStepperTo(this.groupNum, this.targetSteps(degrees));
+  }
+
+  /**
+   * Moves every joint to its target, all of them arriving at the same time.
+   * @param degrees - The target of every joint in degrees.
+   * @returns Resolves to where the joints ended up, in degrees, once the group has arrived.
+   * @throws If any joint may not move to its target, nothing is sent then.
+   */
+  public async moveTo(degrees: number[]): Promise<number[]> {
+    const positions = this.targetSteps(degrees);
+    this.logger.info(`Moving to ${degrees.join(", ")} degrees`);
+    await new Promise<void>((resolve, reject) => {
+      this.pendingReplies.add(reject);
+      this.io.multiStepperTo(this.groupNum, positions, () => {
+        this.pendingReplies.delete(reject);
+        resolve();
+      });
+    });
+    return Promise.all(this.joints.map((joint) => joint.reportDegrees()));
+  }
+
+  private targetSteps(degrees: number[]): number[] {
+    if (degrees.length !== this.joints.length) {
+      throw new Error(
+        `Expected ${this.joints.length} joint angles, got ${degrees.length}.`
+      );
+    }
+    return this.joints.map((joint, index) =>
+      Math.round(joint.targetSteps(degrees[index]))
+    );
+  }
+}
@@ -0,0 +1,513 @@
+import EventEmitter from "events";
+import { type MotorConfig } from "../config.ts";
+
+type SimulatedStepper = {
+  config: MotorConfig;
+  /**
+   * Position known by the controller in steps, reset by accelStepperZero
+   */
+  position: number;
+  /**
+   * Where the joint physically is in steps from its true zero, never reset
+   */
+  physicalPosition: number;
+  target: number;
+  /**
+   * Signed velocity in steps per second
+   */
+  velocity: number;
+  /**
+   * In steps per second
+   */
+  maxSpeed: number;
+  /**
+   * In steps per second squared, 0 means constant speed
+   */
+  acceleration: number;
+  /**
+   * Whether a move is in progress and a completion still has to be reported
+   */
+  running: boolean;
+  /**
+   * Constant speed in steps per second while moving as part of a MultiStepper group
+   */
+  groupSpeed?: number;
+};
+
+type SimulatedEncoder = {
+  stepper: SimulatedStepper;
+  /**
+   * Count at the last reset, as counted from the joint's true zero
+   */
+  zero: number;
+};
+
+type SimulatedHomeSwitch = {
+  config: MotorConfig;
+  value: number;
+};
+
+export type SimulatedFirmataOptions = {
+  /**
+   * Interval of the simulation loop in milliseconds
+   */
+  tickMs?: number;
+  /**
+   * Physical position of each joint (by name) at power on, in degrees
+   */
+  initialDegrees?: Record<string, number>;
+};
+
+function degreesToSteps(config: MotorConfig, degrees: number) {
+  return (degrees / 360) * config.STEPS_PER_REV;
+}
+
+/**
+ * An in-process stand-in for a Firmata board running AccelStepperFirmata.
+ * Steppers follow a trapezoidal velocity profile and every joint has a
+ * home switch placed at the end of its RANGE in the homing direction,
+ * so the same code paths as the real arm (homing, streaming, stopping)
+ * can run without hardware. MultiStepper groups move at constant speeds,
+ * and report completion as a group instead of stepper by stepper. Joints
+ * with an ENCODER count where they physically are, see loseSteps().
+ */
+export class SimulatedFirmata extends EventEmitter {
+  public readonly MODES = {
+    INPUT: 0x00,
+    OUTPUT: 0x01,
+    ANALOG: 0x02,
+    PWM: 0x03,
+    SERVO: 0x04,
+    STEPPER: 0x08,
+    PULLUP: 0x0b,
+  };
+  public readonly HIGH = 1;
+  public readonly LOW = 0;
+  public readonly STEPPER = {
+    TYPE: { DRIVER: 1, TWO_WIRE: 2, THREE_WIRE: 3, FOUR_WIRE: 4 },
+  };
+  public isReady = true;
+  public readonly firmware = {
+    name: "ConfigurableFirmata.ino",
+    version: { major: 2, minor: 10 },
+  };
+
+  private configs: MotorConfig[];
+  private initialDegrees: Record<string, number>;
+  private steppers: Map<number, SimulatedStepper> = new Map();
+  private homeSwitches: Map<number, SimulatedHomeSwitch> = new Map();
+  // Device numbers of every MultiStepper group
+  private groups: Map<number, number[]> = new Map();
+  // Groups with a move whose completion still has to be reported
+  private runningGroups: Set<number> = new Set();
+  private encoders: Map<number, SimulatedEncoder> = new Map();
+  // Last value written to, or set on, every other digital pin
+  private digitalPins: Map<number, number> = new Map();
+  private tickMs: number;
+  // While unplugged nothing the board sends reaches the host
+  private unplugged = false;
+  private intervalId: NodeJS.Timeout;
+
+  constructor(configs: MotorConfig[], options: SimulatedFirmataOptions = {}) {
+    super();
+    this.configs = configs;
+    this.initialDegrees = options.initialDegrees ?? {};
+    this.tickMs = options.tickMs ?? 10;
+
+    configs.forEach((config) => {
+      this.homeSwitches.set(config.HOME_SWITCH_PIN, { config, value: 0 });
+    });
+
+    this.intervalId = setInterval(
+      () => this.tick(this.tickMs / 1000),
+      this.tickMs
+    );
+    this.intervalId.unref?.();
+    queueMicrotask(() => this.send("ready"));
+  }
+
+  /**
+   * Stops the simulation loop.
+   */
+  public close() {
+    clearInterval(this.intervalId);
+  }
+
+  /**
+   * Cuts the link to the host without telling it, like a USB glitch: the board keeps
+   * running, but no more answers or reports arrive.
+   */
+  public unplug() {
+    this.unplugged = true;
+  }
+
+  public get Unplugged(): boolean {
+    return this.unplugged;
+  }
+
+  /**
+   * Asks for the firmware name and version, answered with a "queryfirmware" event.
+   */
+  public queryFirmware(callback: () => void) {
+    this.once("queryfirmware", callback);
+    queueMicrotask(() => this.send("queryfirmware"));
+  }
+
+  /**
+   * The true position of a stepper in degrees, regardless of where the
+   * controller thinks it is.
+   * @param deviceNum - The accelStepper device number.
+   */
+  public physicalDegrees(deviceNum: number): number {
+    const stepper = this.getStepper(deviceNum);
+    return (stepper.physicalPosition / stepper.config.STEPS_PER_REV) * 360;
+  }
+
+  /**
+   * Makes a stepper slip, it moves without the controller counting the steps.
+   * @param deviceNum - The accelStepper device number.
+   * @param steps - How far it slips, in steps.
+   */
+  public loseSteps(deviceNum: number, steps: number) {
+    this.getStepper(deviceNum).physicalPosition += steps;
+  }
+
+  /**
+   * The value last written to a digital output.
+   * @param pin - The pin number.
+   */
+  public digitalOutput(pin: number): number {
+    return this.digitalPins.get(pin) ?? this.LOW;
+  }
+
+  /**
+   * Drives a digital input as if something outside the board switched it,
+   * reporting the change to digitalRead listeners.
+   * @param pin - The pin number.
+   * @param value - HIGH or LOW.
+   */
+  public setDigitalInput(pin: number, value: number) {
+    if (this.digitalPins.get(pin) === value) return;
+    this.digitalPins.set(pin, value);
+    queueMicrotask(() => this.send(`digital-read-${pin}`, value));
+  }
+
+  public pinMode(pin: number, mode: number) {}
+
+  public digitalWrite(pin: number, value: number) {
+    if (!this.homeSwitches.has(pin)) {
+      this.digitalPins.set(pin, value);
+    }
+  }
+
+  public digitalRead(pin: number, callback: (value: number) => void) {
+    this.addListener(`digital-read-${pin}`, callback);
+    const homeSwitch = this.homeSwitches.get(pin);
+    const value = homeSwitch ? homeSwitch.value : this.digitalOutput(pin);
+    queueMicrotask(() => callback(value));
+  }
+
+  public accelStepperConfig(options: {
+    deviceNum: number;
+    type: number;
+    stepPin: number;
+    directionPin: number;
+  }) {
+    const config = this.configs.find(
+      (config) => config.STEP_PIN === options.stepPin
+    );
+    if (!config) {
+      throw new Error(
+        `No motor configuration uses step pin ${options.stepPin}.`
+      );
+    }
+    const physicalPosition = degreesToSteps(
+      config,
+      this.initialDegrees[config.NAME] ?? 0
+    );
+    this.steppers.set(options.deviceNum, {
+      config,
+      position: 0,
+      physicalPosition,
+      target: 0,
+      velocity: 0,
+      maxSpeed: 0,
+      acceleration: 0,
+      running: false,
+    });
+    this.updateHomeSwitch(config);
+  }
+
+  public accelStepperSpeed(deviceNum: number, speed: number) {
+    this.getStepper(deviceNum).maxSpeed = Math.abs(speed);
+  }
+
+  public accelStepperAcceleration(deviceNum: number, acceleration: number) {
+    this.getStepper(deviceNum).acceleration = Math.abs(acceleration);
+  }
+
+  public accelStepperStep(
+    deviceNum: number,
+    steps: number,
+    callback?: (currentAbsSteps: number) => void
+  ) {
+    const stepper = this.getStepper(deviceNum);
+    this.moveTo(deviceNum, Math.round(stepper.position) + Math.trunc(steps));
+    if (callback) {
+      this.once(`stepper-done-${deviceNum}`, callback);
+    }
+  }
+
+  public accelStepperTo(
+    deviceNum: number,
+    position: number,
+    callback?: (currentAbsSteps: number) => void
+  ) {
+    this.moveTo(deviceNum, Math.trunc(position));
+    if (callback) {
+      this.once(`stepper-done-${deviceNum}`, callback);
+    }
+  }
+
+  /**
+   * Like AccelStepper::stop(), the stepper decelerates to a halt, but the
+   * move is reported as complete straight away.
+   */
+  public accelStepperStop(deviceNum: number) {
+    const stepper = this.getStepper(deviceNum);
+    if (stepper.acceleration === 0 || stepper.velocity === 0) {
+      stepper.velocity = 0;
+      stepper.target = Math.round(stepper.position);
+    } else {
+      const stepsToStop =
+        stepper.velocity ** 2 / (2 * stepper.acceleration) + 1;
+      stepper.target = Math.round(
+        stepper.position + Math.sign(stepper.velocity) * stepsToStop
+      );
+    }
+    stepper.running = false;
+    stepper.groupSpeed = undefined;
+    this.reportDone(deviceNum);
+  }
+
+  public multiStepperConfig(options: { groupNum: number; devices: number[] }) {
+    options.devices.forEach((deviceNum) => this.getStepper(deviceNum));
+    this.groups.set(options.groupNum, [...options.devices]);
+  }
+
+  /**
+   * Like MultiStepper::moveTo(), every stepper gets the constant speed that makes the
+   * whole group arrive together, limited by the stepper that needs the longest.
+   */
+  public multiStepperTo(
+    groupNum: number,
+    positions: number[],
+    callback?: () => void
+  ) {
+    const devices = this.groups.get(groupNum);
+    if (!devices) {
+      throw new Error(
+        `MultiStepper group ${groupNum} has not been configured.`
+      );
+    }
+    const steppers = devices.map((deviceNum) => this.getStepper(deviceNum));
+    const targets = positions.map((position) => Math.trunc(position));
+    const distances = steppers.map((stepper, index) =>
+      Math.abs(targets[index] - stepper.position)
+    );
+    const longestTime = Math.max(
+      ...steppers.map((stepper, index) =>
+        distances[index] === 0 ? 0 : distances[index] / stepper.maxSpeed
+      )
+    );
+    steppers.forEach((stepper, index) => {
+      stepper.target = targets[index];
+      stepper.running = true;
+      stepper.groupSpeed =
+        longestTime === 0 ? 0 : distances[index] / longestTime;
+    });
+    this.runningGroups.add(groupNum);
+    if (callback) {
+      this.once(`multi-stepper-done-${groupNum}`, callback);
+    }
+  }
+
+  public accelStepperZero(deviceNum: number) {
+    const stepper = this.getStepper(deviceNum);
+    stepper.target -= stepper.position;
+    stepper.position = 0;
+  }
+
+  public accelStepperReportPosition(
+    deviceNum: number,
+    callback: (position: number) => void
+  ) {
+    const stepper = this.getStepper(deviceNum);
+    this.once(`stepper-position-${deviceNum}`, callback);
+    const position = Math.round(stepper.position);
+    queueMicrotask(() => this.send(`stepper-position-${deviceNum}`, position));
+  }
+
+  public encoderAttach(options: {
+    encoderNum: number;
+    pinA: number;
+    pinB: number;
+  }) {
+    const stepper = [...this.steppers.values()].find(
+      (stepper) => stepper.config.ENCODER?.PIN_A === options.pinA
+    );
+    if (!stepper) {
+      throw new Error(
+        `No motor configuration has an encoder on pin ${options.pinA}.`
+      );
+    }
+    this.encoders.set(options.encoderNum, { stepper, zero: 0 });
+  }
+
+  public encoderReportPosition(
+    encoderNum: number,
+    callback: (position: number) => void
+  ) {
+    const encoder = this.getEncoder(encoderNum);
+    this.once(`encoder-position-${encoderNum}`, callback);
+    const position = this.encoderCount(encoder) - encoder.zero;
+    queueMicrotask(() => this.send(`encoder-position-${encoderNum}`, position));
+  }
+
+  public encoderResetPosition(encoderNum: number) {
+    const encoder = this.getEncoder(encoderNum);
+    encoder.zero = this.encoderCount(encoder);
+  }
+
+  private getEncoder(encoderNum: number): SimulatedEncoder {
+    const encoder = this.encoders.get(encoderNum);
+    if (!encoder) {
+      throw new Error(`Encoder ${encoderNum} has not been attached.`);
+    }
+    return encoder;
+  }
+
+  private encoderCount({ stepper }: SimulatedEncoder): number {
+    const { STEPS_PER_REV, ENCODER } = stepper.config;
+    return Math.round(
+      (stepper.physicalPosition / STEPS_PER_REV) * ENCODER.COUNTS_PER_REV
+    );
+  }
+
+  private getStepper(deviceNum: number): SimulatedStepper {
+    const stepper = this.steppers.get(deviceNum);
+    if (!stepper) {
+      throw new Error(`Stepper ${deviceNum} has not been configured.`);
+    }
+    return stepper;
+  }
+
+  private moveTo(deviceNum: number, target: number) {
+    const stepper = this.getStepper(deviceNum);
+    stepper.target = target;
+    stepper.running = true;
+    // A command of its own takes the stepper out of its group's move
+    stepper.groupSpeed = undefined;
+  }
+
+  private reportDone(deviceNum: number) {
+    const position = Math.round(this.getStepper(deviceNum).position);
+    queueMicrotask(() => this.send(`stepper-done-${deviceNum}`, position));
+  }
+
+  /**
+   * Advances every stepper by the given time.
+   * @param dt - Elapsed time in seconds.
+   */
+  private tick(dt: number) {
+    this.steppers.forEach((stepper, deviceNum) => {
+      this.advanceStepper(stepper, dt);
+      if (stepper.running && stepper.position === stepper.target) {
+        stepper.running = false;
+        if (stepper.groupSpeed === undefined) {
+          this.reportDone(deviceNum);
+        }
+        stepper.groupSpeed = undefined;
+      }
+      this.updateHomeSwitch(stepper.config);
+    });
+    this.runningGroups.forEach((groupNum) => {
+      const moving = this.groups
+        .get(groupNum)
+        .some(
+          (deviceNum) => this.getStepper(deviceNum).groupSpeed !== undefined
+        );
+      if (!moving) {
+        this.runningGroups.delete(groupNum);
+        queueMicrotask(() => this.send(`multi-stepper-done-${groupNum}`));
+      }
+    });
+  }
+
+  private advanceStepper(stepper: SimulatedStepper, dt: number) {
+    const distance = stepper.target - stepper.position;
+    if (distance === 0) {
+      stepper.velocity = 0;
+      return;
+    }
+    const direction = Math.sign(distance);
+    const { acceleration, maxSpeed } = stepper;
+
+    let velocity: number;
+    if (stepper.groupSpeed !== undefined) {
+      velocity = direction * stepper.groupSpeed;
+    } else if (acceleration === 0) {
+      velocity = direction * maxSpeed;
+    } else if (stepper.velocity * direction < 0) {
+      // Still moving away from the target, brake first
+      velocity = stepper.velocity + direction * acceleration * dt;
+    } else {
+      velocity =
+        direction *
+        Math.min(
+          maxSpeed,
+          Math.abs(stepper.velocity) + acceleration * dt,
+          Math.sqrt(2 * acceleration * Math.abs(distance))
+        );
+    }
+
+    let delta = velocity * dt;
+    if (
+      Math.sign(delta) === direction &&
+      (Math.abs(delta) >= Math.abs(distance) || Math.abs(distance) <= 1)
+    ) {
+      delta = distance;
+      velocity = 0;
+    }
+    stepper.velocity = velocity;
+    stepper.position += delta;
+    stepper.physicalPosition += delta;
+  }
+
+  private updateHomeSwitch(config: MotorConfig) {
+    const homeSwitch = this.homeSwitches.get(config.HOME_SWITCH_PIN);
+    const stepper = [...this.steppers.values()].find(
+      (stepper) => stepper.config === config
+    );
+    if (!homeSwitch || !stepper) return;
+
+    const [min, max] = config.RANGE;
+    const active =
+      config.HOMING_DIRECTION === "negative"
+        ? stepper.physicalPosition <= degreesToSteps(config, min)
+        : stepper.physicalPosition >= degreesToSteps(config, max);
+    const value = active ? this.HIGH : this.LOW;
+    if (value !== homeSwitch.value) {
+      homeSwitch.value = value;
+      this.send(`digital-read-${config.HOME_SWITCH_PIN}`, value);
+    }
+  }
+
+  /**
+   * Emits a message to the host, unless the board is unplugged.
+   */
+  private send(event: string, ...args: unknown[]) {
+    if (this.unplugged) return;
+    this.emit(event, ...args);
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { calibrateDH, type DHMeasurement } from "./calibration.ts";
+import { createKinematics, DEFAULT_DH_PARAMETERS } from "./kinematics.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+
+// The arm as built: longer links and joint zeros a little off
+const ACTUAL = structuredClone(DEFAULT_DH_PARAMETERS);
+ACTUAL.J1.a += 1.2;
+ACTUAL.J1.d -= 0.8;
+ACTUAL.J2.a += 1.5;
+ACTUAL.J2.thetaOffset += 0.4;
+ACTUAL.J3.thetaOffset -= 0.3;
+ACTUAL.J4.d -= 0.9;
+ACTUAL.J5.thetaOffset += 0.25;
+ACTUAL.J6.d += 0.6;
+
+const TOOL: [number, number, number, number, number, number] = [
+  20, 0, 80, 0, 0, 0,
+];
+
+/**
+ * Joint angles spread over the joint ranges, the same every run.
+ */
+function configurations(count: number): number[][] {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  return Array.from({ length: count }, () =>
+    ["J1", "J2", "J3", "J4", "J5", "J6"].map((name) => {
+      const [min, max] = JOINT_CONFIGS[name].RANGE;
+      return min + (max - min) * (0.1 + 0.8 * random());
+    })
+  );
+}
+
+function measure(joints: number[][], noise = 0): DHMeasurement[] {
+  const kinematics = createKinematics(ACTUAL);
+  kinematics.setToolFrame(20, 0, 80, 0, 0, 0);
+  return joints.map((angles, index) => {
+    const frame = kinematics.forwardKinematics(angles);
+    // Alternating, so it averages out
+    const offset = (index % 2 === 0 ? 1 : -1) * noise;
+    return {
+      joints: angles,
+      position: [frame[0][3] + offset, frame[1][3] - offset, frame[2][3]],
+    };
+  });
+}
+
+describe("DH calibration", () => {
+  it("should solve the link lengths and zero offsets of the arm as built", () => {
+    const calibration = calibrateDH(measure(configurations(30)), {
+      dh: DEFAULT_DH_PARAMETERS,
+      tool: TOOL,
+    });
+
+    expect(calibration.before.rmsError).toBeGreaterThan(1);
+    expect(calibration.before.residuals).toHaveLength(30);
+    expect(calibration.after.rmsError).toBeLessThan(1e-3);
+    expect(calibration.after.maxError).toBeLessThan(1e-3);
+    expect(calibration.dh.J1.a).toBeCloseTo(ACTUAL.J1.a, 2);
+    expect(calibration.dh.J2.a).toBeCloseTo(ACTUAL.J2.a, 2);
+    expect(calibration.zeroOffsets.J2).toBeCloseTo(0.4, 2);
+    expect(calibration.zeroOffsets.J5).toBeCloseTo(0.25, 2);
+    // Alpha is kept
+    expect(calibration.dh.J4.alpha).toBe(DEFAULT_DH_PARAMETERS.J4.alpha);
+
+    // The corrected model predicts poses it was not fitted to
+    const check = createKinematics(calibration.dh);
+    check.setToolFrame(20, 0, 80, 0, 0, 0);
+    measure(configurations(40).slice(30)).forEach(({ joints, position }) => {
+      const frame = check.forwardKinematics(joints);
+      position.forEach((value, row) =>
+        expect(frame[row][3]).toBeCloseTo(value, 2)
+      );
+    });
+  });
+
+  it("should fit noisy measurements down to the noise", () => {
+    const calibration = calibrateDH(measure(configurations(30), 0.05), {
+      dh: DEFAULT_DH_PARAMETERS,
+      tool: TOOL,
+    });
+    expect(calibration.after.rmsError).toBeLessThan(0.1);
+    expect(calibration.after.rmsError).toBeLessThan(
+      calibration.before.rmsError / 10
+    );
+  });
+
+  it("should solve only the parameters asked for", () => {
+    const calibration = calibrateDH(measure(configurations(12)), {
+      dh: DEFAULT_DH_PARAMETERS,
+      tool: TOOL,
+      parameters: ["thetaOffset"],
+    });
+    expect(calibration.dh.J2.a).toBe(DEFAULT_DH_PARAMETERS.J2.a);
+    expect(calibration.after.rmsError).toBeLessThan(
+      calibration.before.rmsError
+    );
+  });
+
+  it("should refuse too few or unusable measurements", () => {
+    const measurements = measure(configurations(5));
+    expect(() => calibrateDH(measurements)).toThrow(
+      "DH calibration of 18 parameters needs at least 6 measurements, got 5."
+    );
+    expect(() =>
+      calibrateDH([...measurements, { joints: [0, 0, 0], position: [0, 0, 0] }])
+    ).toThrow("Measurement 6 needs 6 joint angles and an [x, y, z] position.");
+  });
+});
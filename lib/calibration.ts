@@ -0,0 +1,220 @@
+import { lusolve, multiply, transpose } from "mathjs";
+import {
+  createKinematics,
+  type DHDescription,
+  getDHParameters,
+} from "./kinematics.ts";
+import { type TPose } from "./robot.ts";
+
+type TPoint = [number, number, number]; // [x, y, z]
+
+type DHField = keyof DHDescription;
+
+/**
+ * Where the tool center point was measured, e.g. with a laser tracker, at a set of joint angles.
+ */
+export type DHMeasurement = {
+  /**
+   * Joint angles in degrees (J1 to J6) as the robot reported them
+   */
+  joints: number[];
+  /**
+   * The measured tool center point in the base frame, in mm
+   */
+  position: TPoint;
+};
+
+export type DHCalibrationOptions = {
+  /**
+   * The DH parameters to start from, the current ones by default
+   */
+  dh?: Record<string, DHDescription>;
+  /**
+   * The tool center point relative to the flange [x, y, z, rx, ry, rz], rotations in degrees
+   */
+  tool?: TPose;
+  /**
+   * Which DH parameters of every joint to solve for, the others are kept
+   */
+  parameters?: DHField[];
+  maxIterations?: number;
+};
+
+/**
+ * How far the model's tool center point misses the measured ones, in mm
+ */
+export type DHResiduals = {
+  residuals: number[];
+  rmsError: number;
+  maxError: number;
+};
+
+export type DHCalibration = {
+  /**
+   * The corrected DH parameters
+   */
+  dh: Record<string, DHDescription>;
+  /**
+   * How much the zero of every joint moved, in degrees
+   */
+  zeroOffsets: Record<string, number>;
+  before: DHResiduals;
+  after: DHResiduals;
+  iterations: number;
+};
+
+// Finite difference step of the Jacobian, in mm or degrees
+const DIFFERENCE_STEP = 1e-6;
+const MIN_DAMPING = 1e-9;
+const MAX_DAMPING = 1e9;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Corrects DH parameters and joint zero offsets from measured tool center points by least
+ * squares, with Levenberg-Marquardt steps on a finite difference Jacobian.
+ *
+ * Parameters the measurements cannot tell apart, e.g. the d of joints whose axes are parallel,
+ * share their correction and the ones they do not depend on at all keep their values. The
+ * measurements should spread over the joint ranges, with every joint turned.
+ * @param measurements Joint angles with the tool center point measured there.
+ * @param options Where to start and which parameters to solve for, by default the theta
+ * offsets, d and a of every joint.
+ * @throws If there are too few measurements for the parameters, or one is not usable.
+ */
+export function calibrateDH(
+  measurements: DHMeasurement[],
+  options: DHCalibrationOptions = {}
+): DHCalibration {
+  const {
+    dh: nominal = getDHParameters(),
+    tool = [0, 0, 0, 0, 0, 0],
+    parameters = ["thetaOffset", "d", "a"],
+    maxIterations = 100,
+  } = options;
+  const names = Object.keys(nominal);
+  const free = names.flatMap((name) =>
+    parameters.map((field): [string, DHField] => [name, field])
+  );
+  if (measurements.length * 3 < free.length) {
+    throw new Error(
+      `DH calibration of ${free.length} parameters needs at least ${Math.ceil(
+        free.length / 3
+      )} measurements, got ${measurements.length}.`
+    );
+  }
+  measurements.forEach(({ joints, position }, index) => {
+    if (
+      joints?.length !== names.length ||
+      position?.length !== 3 ||
+      ![...joints, ...position].every((value) => Number.isFinite(value))
+    ) {
+      throw new Error(
+        `Measurement ${index + 1} needs ${
+          names.length
+        } joint angles and an [x, y, z] position.`
+      );
+    }
+  });
+
+  const toDH = (values: number[]) => {
+    const dh = Object.fromEntries(
+      names.map((name) => [name, { ...nominal[name] }])
+    );
+    free.forEach(([name, field], index) => {
+      dh[name][field] = values[index];
+    });
+    return dh;
+  };
+  // x, y and z of every measurement's model minus measured tool center point
+  const errors = (values: number[]) => {
+    const kinematics = createKinematics(toDH(values));
+    const [x, y, z, rx, ry, rz] = tool;
+    kinematics.setToolFrame(
+      x,
+      y,
+      z,
+      toRadians(rx),
+      toRadians(ry),
+      toRadians(rz)
+    );
+    return measurements.flatMap(({ joints, position }) => {
+      const frame = kinematics.forwardKinematics(joints);
+      return position.map((value, row) => frame[row][3] - value);
+    });
+  };
+  const costOf = (error: number[]) =>
+    error.reduce((sum, value) => sum + value ** 2, 0);
+  const residualsOf = (error: number[]): DHResiduals => {
+    const residuals = measurements.map((_, index) =>
+      Math.hypot(...error.slice(index * 3, index * 3 + 3))
+    );
+    return {
+      residuals,
+      rmsError: Math.sqrt(costOf(error) / measurements.length),
+      maxError: Math.max(...residuals),
+    };
+  };
+
+  let values = free.map(([name, field]) => nominal[name][field]);
+  let error = errors(values);
+  let cost = costOf(error);
+  const before = residualsOf(error);
+  let damping = 1e-3;
+  let iterations = 0;
+  let converged = false;
+  while (!converged && iterations < maxIterations && damping < MAX_DAMPING) {
+    iterations++;
+    // One row per parameter, how the errors change with it
+    const jacobianT = values.map((value, index) => {
+      const nudged = [...values];
+      nudged[index] = value + DIFFERENCE_STEP;
+      return errors(nudged).map(
+        (nudgedError, row) => (nudgedError - error[row]) / DIFFERENCE_STEP
+      );
+    });
+    const normal = multiply(jacobianT, transpose(jacobianT)) as number[][];
+    const gradient = multiply(jacobianT, error) as number[];
+
+    // Damp until a step lowers the cost
+    let improved = false;
+    while (!improved && damping < MAX_DAMPING) {
+      const damped = normal.map((row, i) =>
+        row.map((value, j) => (i === j ? value + damping : value))
+      );
+      const step = (
+        lusolve(
+          damped,
+          gradient.map((value) => -value)
+        ) as number[][]
+      ).map(([value]) => value);
+      const candidate = values.map((value, index) => value + step[index]);
+      const candidateError = errors(candidate);
+      const candidateCost = costOf(candidateError);
+      if (candidateCost < cost) {
+        improved = true;
+        converged = cost - candidateCost < 1e-12 * (1 + cost);
+        values = candidate;
+        error = candidateError;
+        cost = candidateCost;
+        damping = Math.max(damping / 10, MIN_DAMPING);
+      } else {
+        damping *= 10;
+      }
+    }
+  }
+
+  const dh = toDH(values);
+  return {
+    dh,
+    zeroOffsets: Object.fromEntries(
+      names.map((name) => [
+        name,
+        dh[name].thetaOffset - nominal[name].thetaOffset,
+      ])
+    ),
+    before,
+    after: residualsOf(error),
+    iterations,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { createKinematics } from "./kinematics.ts";
+import { SelfCollisionChecker, segmentDistance } from "./collision.ts";
+
+describe("Self-collision", () => {
+  it("should measure the distance between segments", () => {
+    // Crossing at right angles, 5 apart
+    expect(segmentDistance([-1, 0, 0], [1, 0, 0], [0, -1, 5], [0, 1, 5])).toBe(
+      5
+    );
+    // Parallel and overlapping
+    expect(segmentDistance([0, 0, 0], [10, 0, 0], [5, 3, 0], [15, 3, 0])).toBe(
+      3
+    );
+    // Closest at the end points
+    expect(
+      segmentDistance([0, 0, 0], [1, 0, 0], [4, 4, 0], [4, 8, 0])
+    ).toBeCloseTo(5, 9);
+    // A point against a segment
+    expect(segmentDistance([0, 2, 0], [0, 2, 0], [-1, 0, 0], [1, 0, 0])).toBe(
+      2
+    );
+  });
+
+  it("should build the capsules from the DH offsets", () => {
+    const kinematics = createKinematics();
+    kinematics.setToolFrame(0, 0, 100, 0, 0, 0);
+    const checker = new SelfCollisionChecker(kinematics);
+
+    const capsules = checker.capsules([0, 0, 0, 0, 0, 0]);
+    expect(capsules.map((capsule) => capsule.link)).toEqual([
+      "base",
+      "shoulder",
+      "upper arm",
+      "forearm",
+      "flange",
+      "tool",
+    ]);
+    expect(capsules[0].end[2]).toBeCloseTo(184, 6);
+    const upperArm = capsules[2];
+    expect(
+      Math.hypot(
+        ...upperArm.end.map((value, index) => value - upperArm.start[index])
+      )
+    ).toBeCloseTo(300, 6);
+    expect(checker.check([0, 0, 0, 0, 0, 0])).toBeUndefined();
+  });
+
+  it("should find the links that would collide and the step", () => {
+    const kinematics = createKinematics();
+    kinematics.setToolFrame(0, 0, 100, 0, 0, 0);
+    const checker = new SelfCollisionChecker(kinematics);
+
+    const folded = [0, 108, 38, 0, 40, 0];
+    expect(checker.check(folded)?.links).toEqual(["base", "tool"]);
+
+    const trajectory = [0, 0.25, 0.5, 0.75, 1].map((t) =>
+      folded.map((angle) => angle * t)
+    );
+    const collision = checker.checkTrajectory(trajectory);
+    expect(collision?.step).toBe(4);
+    expect(collision?.links).toEqual(["base", "tool"]);
+
+    // Thinner links clear each other
+    checker.setRadii({ base: 5, tool: 1 });
+    expect(checker.check(folded)).toBeUndefined();
+    expect(() => checker.setRadii({ tool: -1 })).toThrow(/0 or more/);
+  });
+});
@@ -0,0 +1,198 @@
+import { type Kinematics, type LinkSegment } from "./kinematics.ts";
+
+type TPoint = [number, number, number]; // [x, y, z]
+
+/**
+ * A link segment with a radius, every point within the radius of the segment is solid
+ */
+export type Capsule = LinkSegment & { link: string; radius: number };
+
+export type SelfCollision = {
+  /**
+   * The two links that would touch, by name
+   */
+  links: [string, string];
+  /**
+   * How far apart the two segments are, less than the sum of their radii
+   */
+  distance: number;
+};
+
+/**
+ * Readable names for the DH segments of the arm
+ */
+export const LINK_NAMES: Record<string, string> = {
+  "J1.d": "base",
+  "J1.a": "shoulder",
+  "J2.a": "upper arm",
+  "J4.d": "forearm",
+  "J6.d": "flange",
+  tool: "tool",
+};
+
+/**
+ * Radius of each link's capsule in mm, by name
+ */
+export const DEFAULT_LINK_RADII: Record<string, number> = {
+  base: 30,
+  shoulder: 30,
+  "upper arm": 25,
+  forearm: 25,
+  flange: 20,
+  tool: 10,
+};
+
+// Radius of links that have neither a configured nor a default radius
+const FALLBACK_RADIUS = 20;
+
+function subtract(a: TPoint, b: TPoint): TPoint {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: TPoint, b: TPoint): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * The shortest distance between two line segments.
+ */
+export function segmentDistance(
+  p1: TPoint,
+  q1: TPoint,
+  p2: TPoint,
+  q2: TPoint
+): number {
+  const d1 = subtract(q1, p1);
+  const d2 = subtract(q2, p2);
+  const r = subtract(p1, p2);
+  const a = dot(d1, d1);
+  const e = dot(d2, d2);
+  const f = dot(d2, r);
+
+  let s: number;
+  let t: number;
+  if (a === 0 && e === 0) {
+    s = t = 0;
+  } else if (a === 0) {
+    s = 0;
+    t = clamp01(f / e);
+  } else {
+    const c = dot(d1, r);
+    if (e === 0) {
+      t = 0;
+      s = clamp01(-c / a);
+    } else {
+      const b = dot(d1, d2);
+      const denominator = a * e - b * b;
+      // Parallel segments have no single closest pair, any s will do
+      s = denominator !== 0 ? clamp01((b * f - c * e) / denominator) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp01(-c / a);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp01((b - c) / a);
+      }
+    }
+  }
+  const closest1 = p1.map((value, i) => value + d1[i] * s);
+  const closest2 = p2.map((value, i) => value + d2[i] * t);
+  return Math.hypot(
+    closest1[0] - closest2[0],
+    closest1[1] - closest2[1],
+    closest1[2] - closest2[2]
+  );
+}
+
+/**
+ * Models the arm as a chain of capsules along its DH segments, and finds links that would
+ * run into each other. Neighbouring links share a joint and always touch, so they are not checked.
+ */
+export class SelfCollisionChecker {
+  private radii: Record<string, number>;
+
+  /**
+   * @param kinematics - The arm's kinematics, its tool frame sizes the tool capsule.
+   * @param radii - Capsule radius of each link by name, on top of DEFAULT_LINK_RADII.
+   */
+  constructor(
+    private kinematics: Kinematics,
+    radii: Record<string, number> = {}
+  ) {
+    this.radii = { ...DEFAULT_LINK_RADII };
+    this.setRadii(radii);
+  }
+
+  get Radii(): Record<string, number> {
+    return { ...this.radii };
+  }
+
+  public setRadii(radii: Record<string, number>) {
+    for (const [link, radius] of Object.entries(radii)) {
+      if (!(radius >= 0)) {
+        throw new Error(
+          `Radius of link "${link}" must be 0 or more, got ${radius}.`
+        );
+      }
+      this.radii[link] = radius;
+    }
+  }
+
+  /**
+   * The capsules making up the arm for the given joint angles, from the base to the tool.
+   */
+  public capsules(jointAngles: number[]): Capsule[] {
+    return this.kinematics.linkSegments(jointAngles).map((segment) => {
+      const link = LINK_NAMES[segment.name] ?? segment.name;
+      return {
+        ...segment,
+        link,
+        radius: this.radii[link] ?? FALLBACK_RADIUS,
+      };
+    });
+  }
+
+  /**
+   * @param jointAngles Joint angles in degrees (J1 to J6).
+   * @returns The first pair of links that overlap, or undefined if none do.
+   */
+  public check(jointAngles: number[]): SelfCollision | undefined {
+    const capsules = this.capsules(jointAngles);
+    for (let i = 0; i < capsules.length; i++) {
+      for (let j = i + 2; j < capsules.length; j++) {
+        const distance = segmentDistance(
+          capsules[i].start,
+          capsules[i].end,
+          capsules[j].start,
+          capsules[j].end
+        );
+        if (distance < capsules[i].radius + capsules[j].radius) {
+          return { links: [capsules[i].link, capsules[j].link], distance };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks every configuration of a planned trajectory.
+   * @param trajectory Joint angles in degrees (J1 to J6) at every step.
+   * @returns The first collision and the step it happens at, or undefined if there is none.
+   */
+  public checkTrajectory(
+    trajectory: number[][]
+  ): (SelfCollision & { step: number }) | undefined {
+    for (let step = 0; step < trajectory.length; step++) {
+      const collision = this.check(trajectory[step]);
+      if (collision) {
+        return { ...collision, step };
+      }
+    }
+    return undefined;
+  }
+}
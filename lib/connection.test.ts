@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ConnectionSupervisor, type PortInfo } from "./connection.ts";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+describe("ConnectionSupervisor", () => {
+  let boards: SimulatedFirmata[];
+  let opened: string[];
+  let supervisor: ConnectionSupervisor;
+
+  function createSupervisor(
+    ports: PortInfo[],
+    boardOn: (path: string) => boolean = () => true
+  ) {
+    return new ConnectionSupervisor({
+      listPorts: async () => ports,
+      open: (path) => {
+        opened.push(path);
+        const board = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+        boards.push(board);
+        if (!boardOn(path)) {
+          // Something else answering on the port
+          (board as { firmware: object }).firmware = { name: "Marlin" };
+        }
+        return board as unknown as FirmataType;
+      },
+      heartbeatIntervalMs: 500,
+      heartbeatTimeoutMs: 300,
+      reconnectDelayMs: 1_000,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    boards = [];
+    opened = [];
+  });
+
+  afterEach(() => {
+    supervisor?.close();
+    boards.forEach((board) => board.close());
+    vi.useRealTimers();
+  });
+
+  it("should find the board by its USB ID or its firmware", async () => {
+    supervisor = createSupervisor(
+      [
+        { path: "/dev/ttyS0" },
+        { path: "/dev/ttyUSB0" },
+        { path: "/dev/ttyACM0", vendorId: "2341", productId: "0042" },
+      ],
+      (path) => path === "/dev/ttyUSB0"
+    );
+
+    await supervisor.connect();
+    // The known board first, then the others in order
+    expect(opened).toEqual(["/dev/ttyACM0", "/dev/ttyS0", "/dev/ttyUSB0"]);
+    expect(supervisor.Port).toBe("/dev/ttyUSB0");
+    expect(supervisor.State).toBe("connected");
+  });
+
+  it("should tell why no port was taken", async () => {
+    supervisor = createSupervisor([{ path: "COM1" }], () => false);
+    await expect(supervisor.connect()).rejects.toThrow(
+      /No board running ConfigurableFirmata found \(COM1: runs Marlin\)/
+    );
+    expect(supervisor.State).toBe("disconnected");
+
+    supervisor = createSupervisor([]);
+    await expect(supervisor.connect()).rejects.toThrow(/no serial ports/);
+  });
+
+  it("should fault the robot when the board stops answering and reconnect", async () => {
+    let plugged = true;
+    supervisor = createSupervisor([{ path: "/dev/ttyACM0" }], () => plugged);
+    const robot = new Robot((await supervisor.connect()) as FirmataType);
+    const lost: string[] = [];
+    supervisor.on("lost", (reason) => {
+      lost.push(reason);
+      robot.disconnect(reason);
+    });
+    supervisor.on("connected", (io) => robot.attachBoard(io));
+
+    await runFor(robot.home(), 120_000);
+    expect(robot.Homed).toBe(true);
+
+    const move = runFor(robot.moveJ({ joints: [40, 0, 0, 0, 0, 0] }), 1_000);
+    boards[0].unplug();
+    plugged = false;
+    await expect(move).rejects.toThrow(/No heartbeat answer within 300 ms/);
+    expect(lost).toHaveLength(1);
+    expect(supervisor.State).toBe("faulted");
+    expect(robot.State).toBe("Disconnected");
+    expect(robot.Fault).toMatch(/No heartbeat answer/);
+    expect(robot.Homed).toBe(false);
+
+    // Nothing there after 1 second and 2 more, back after another 4
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(opened).toHaveLength(3);
+    plugged = true;
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(opened).toHaveLength(4);
+    expect(supervisor.State).toBe("connected");
+    expect(robot.State).toBe("Unhomed");
+    expect(robot.Fault).toBeUndefined();
+
+    // The new board has to be homed again, and keeps answering the heartbeat
+    await expect(robot.moveJ({ joints: [10, 0, 0, 0, 0, 0] })).rejects.toThrow(
+      /must be homed/
+    );
+    await runFor(robot.home(), 120_000);
+    expect(robot.Homed).toBe(true);
+    expect(lost).toHaveLength(1);
+  });
+
+  it("should count a closed port as a lost link", async () => {
+    supervisor = createSupervisor([{ path: "/dev/ttyACM0" }]);
+    await supervisor.connect();
+    const states: string[] = [];
+    supervisor.on("state", (state) => states.push(state));
+
+    const transport = { close: vi.fn() };
+    (boards[0] as { transport?: object }).transport = transport;
+    boards[0].emit("close");
+    expect(states).toEqual(["faulted"]);
+    // The old port is closed, and its late errors are not thrown
+    expect(transport.close).toHaveBeenCalledTimes(1);
+    expect(() => boards[0].emit("error", new Error("EIO"))).not.toThrow();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(states).toEqual(["faulted", "connected"]);
+  });
+});
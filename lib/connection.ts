@@ -0,0 +1,315 @@
+import EventEmitter from "events";
+import pino from "pino";
+import { type FirmataType } from "./Firmata.ts";
+
+/**
+ * A serial port as listed by serialport's SerialPort.list()
+ */
+export type PortInfo = {
+  path: string;
+  manufacturer?: string;
+  vendorId?: string;
+  productId?: string;
+};
+
+/**
+ * USB IDs of the boards the arm is driven by, ports with these are tried first
+ */
+export const KNOWN_BOARD_IDS: { vendorId: string; productId: string }[] = [
+  // Arduino Mega 2560
+  { vendorId: "2341", productId: "0010" },
+  { vendorId: "2341", productId: "0042" },
+  // Mega clones with a CH340 USB chip
+  { vendorId: "1a86", productId: "7523" },
+];
+
+/**
+ * - disconnected: not connected, and not trying to
+ * - connecting: looking for the board or waiting for it to be ready
+ * - connected: the board answers the heartbeat
+ * - faulted: the link was lost, reconnecting with backoff
+ */
+export type ConnectionState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "faulted";
+
+export type ConnectionSupervisorOptions = {
+  /**
+   * Opens a Firmata connection on a port, e.g. (path) => new Firmata(path)
+   */
+  open: (path: string) => FirmataType;
+  /**
+   * Lists the serial ports, e.g. SerialPort.list
+   */
+  listPorts: () => Promise<PortInfo[]>;
+  /**
+   * Always use this port instead of looking for the board
+   */
+  port?: string;
+  /**
+   * Part of the name the board's firmware reports
+   */
+  firmwareName?: string;
+  /**
+   * How long a board may take to become ready
+   */
+  readyTimeoutMs?: number;
+  /**
+   * Time between a heartbeat answer and the next heartbeat
+   */
+  heartbeatIntervalMs?: number;
+  /**
+   * How long the board may take to answer a heartbeat before the link counts as lost
+   */
+  heartbeatTimeoutMs?: number;
+  /**
+   * Wait before the first reconnect attempt, doubled after every failed attempt
+   */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+};
+
+function isKnownBoard(port: PortInfo): boolean {
+  return KNOWN_BOARD_IDS.some(
+    ({ vendorId, productId }) =>
+      port.vendorId?.toLowerCase() === vendorId &&
+      port.productId?.toLowerCase() === productId
+  );
+}
+
+/**
+ * Finds the board, keeps checking that it still answers, and reconnects when it stops.
+ *
+ * Without a fixed port, ports with a known USB ID are tried before the others, and a port
+ * is only taken once the firmware it reports has the expected name. The board is asked for
+ * its firmware again as a heartbeat, when it misses one or the port closes the connection
+ * is lost: "lost" is emitted with the reason, the state turns faulted, and reconnecting
+ * starts with a growing delay.
+ *
+ * Emits "state" on every change, "connected" with the io when a board is ready, and "lost".
+ */
+export class ConnectionSupervisor extends EventEmitter {
+  private state: ConnectionState = "disconnected";
+  private io: FirmataType | undefined;
+  private path: string | undefined;
+  private heartbeatId: NodeJS.Timeout | undefined;
+  private reconnectId: NodeJS.Timeout | undefined;
+  private failedAttempts = 0;
+  private logger: pino.Logger;
+  private options: Required<Omit<ConnectionSupervisorOptions, "port">> & {
+    port?: string;
+  };
+
+  constructor(options: ConnectionSupervisorOptions) {
+    super();
+    this.options = {
+      firmwareName: "ConfigurableFirmata",
+      readyTimeoutMs: 10_000,
+      heartbeatIntervalMs: 1_000,
+      heartbeatTimeoutMs: 1_000,
+      reconnectDelayMs: 1_000,
+      maxReconnectDelayMs: 30_000,
+      ...options,
+    };
+    this.logger = pino({
+      name: "Connection",
+      level: "info",
+      base: { name: "Connection" },
+      timestamp: pino.stdTimeFunctions.isoTime,
+    });
+  }
+
+  get State(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * The board currently connected, undefined while there is none.
+   */
+  get Io(): FirmataType | undefined {
+    return this.io;
+  }
+
+  /**
+   * The port the board was last found on.
+   */
+  get Port(): string | undefined {
+    return this.path;
+  }
+
+  /**
+   * Finds and opens the board and starts the heartbeat.
+   * @returns The ready board.
+   * @throws If no port has a board with the expected firmware.
+   */
+  public async connect(): Promise<FirmataType> {
+    this.setState("connecting");
+    try {
+      const { path, io } = await this.findBoard();
+      this.attach(path, io);
+      return io;
+    } catch (error) {
+      this.setState("disconnected");
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the heartbeat and any reconnecting. The port is left to the caller.
+   */
+  public close() {
+    clearTimeout(this.heartbeatId);
+    clearTimeout(this.reconnectId);
+    this.detach();
+    this.setState("disconnected");
+  }
+
+  private setState(state: ConnectionState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.emit("state", state);
+  }
+
+  private attach(path: string, io: FirmataType) {
+    this.io = io;
+    this.path = path;
+    this.failedAttempts = 0;
+    io.on("close", this.onClose);
+    io.on("disconnect", this.onClose);
+    io.on("error", this.onError);
+    this.logger.info(`Connected to ${io.firmware?.name} on ${path}`);
+    this.setState("connected");
+    this.emit("connected", io);
+    this.scheduleHeartbeat();
+  }
+
+  private detach() {
+    this.io?.removeListener("close", this.onClose);
+    this.io?.removeListener("disconnect", this.onClose);
+    this.io?.removeListener("error", this.onError);
+    this.io = undefined;
+  }
+
+  private onClose = () => this.onLinkLost("The serial port closed");
+
+  private onError = (error: Error) =>
+    this.onLinkLost(`The serial port failed: ${error.message}`);
+
+  private onStaleError = (error: Error) =>
+    this.logger.warn(`The lost serial port failed: ${error.message}`);
+
+  private onLinkLost(reason: string) {
+    if (this.state !== "connected") return;
+    clearTimeout(this.heartbeatId);
+    const io = this.io;
+    this.detach();
+    // Free the port for the reconnect, errors of the dead port must not go unhandled
+    io?.on("error", this.onStaleError);
+    io?.transport?.close?.();
+    this.logger.error(`Connection lost: ${reason}`);
+    this.setState("faulted");
+    this.emit("lost", reason);
+    this.scheduleReconnect();
+  }
+
+  private scheduleHeartbeat() {
+    this.heartbeatId = setTimeout(
+      () => this.heartbeat(),
+      this.options.heartbeatIntervalMs
+    );
+  }
+
+  private heartbeat() {
+    const io = this.io;
+    if (!io) return;
+    const onReply = () => {
+      clearTimeout(this.heartbeatId);
+      this.scheduleHeartbeat();
+    };
+    this.heartbeatId = setTimeout(() => {
+      io.removeListener("queryfirmware", onReply);
+      this.onLinkLost(
+        `No heartbeat answer within ${this.options.heartbeatTimeoutMs} ms`
+      );
+    }, this.options.heartbeatTimeoutMs);
+    io.queryFirmware(onReply);
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(
+      this.options.reconnectDelayMs * 2 ** this.failedAttempts,
+      this.options.maxReconnectDelayMs
+    );
+    this.logger.info(`Reconnecting in ${delay} ms`);
+    this.reconnectId = setTimeout(async () => {
+      try {
+        const { path, io } = await this.findBoard();
+        // Closed while looking
+        if (this.state !== "faulted") return;
+        this.attach(path, io);
+      } catch (error) {
+        if (this.state !== "faulted") return;
+        this.failedAttempts++;
+        this.logger.warn(`Reconnecting failed: ${error.message}`);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Tries the fixed port, or else every port, known boards first, until one runs the firmware.
+   */
+  private async findBoard(): Promise<{ path: string; io: FirmataType }> {
+    const paths = this.options.port
+      ? [this.options.port]
+      : (await this.options.listPorts())
+          .sort((a, b) => Number(isKnownBoard(b)) - Number(isKnownBoard(a)))
+          .map((port) => port.path);
+    const failures: string[] = [];
+    for (const path of paths) {
+      try {
+        return { path, io: await this.probe(path) };
+      } catch (error) {
+        failures.push(`${path}: ${error.message}`);
+      }
+    }
+    throw new Error(
+      `No board running ${this.options.firmwareName} found${
+        failures.length > 0 ? ` (${failures.join("; ")})` : ", no serial ports"
+      }.`
+    );
+  }
+
+  /**
+   * Opens a port and waits for the board to be ready and report the expected firmware.
+   */
+  private async probe(path: string): Promise<FirmataType> {
+    const io = this.options.open(path);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        if (io.isReady) return resolve();
+        const timeoutId = setTimeout(() => {
+          io.removeListener("ready", onReady);
+          reject(
+            new Error(`not ready within ${this.options.readyTimeoutMs} ms`)
+          );
+        }, this.options.readyTimeoutMs);
+        const onReady = () => {
+          clearTimeout(timeoutId);
+          resolve();
+        };
+        io.once("ready", onReady);
+      });
+      const name: string | undefined = io.firmware?.name;
+      if (!name?.includes(this.options.firmwareName)) {
+        throw new Error(`runs ${name ?? "unknown firmware"}`);
+      }
+      return io;
+    } catch (error) {
+      io.transport?.close?.();
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parse as parseYaml } from "yaml";
+import {
+  applyRobotDescription,
+  loadRobotDescription,
+  RobotDescriptionError,
+  saveDHParameters,
+  validateRobotDescription,
+} from "./description.ts";
+import { createKinematics, DEFAULT_DH_PARAMETERS } from "./kinematics.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+
+const BUILT_IN = {
+  port: "auto",
+  joints: structuredClone(JOINT_CONFIGS),
+  dh: structuredClone(DEFAULT_DH_PARAMETERS),
+};
+
+function errorsOf(value: unknown): string[] {
+  try {
+    validateRobotDescription(value);
+  } catch (error) {
+    expect(error).toBeInstanceOf(RobotDescriptionError);
+    return error.errors;
+  }
+  throw new Error("Expected the description to be rejected.");
+}
+
+describe("Robot description", () => {
+  afterEach(() => {
+    applyRobotDescription(structuredClone(BUILT_IN));
+  });
+
+  it("should describe the built-in arm in robot.yaml", async () => {
+    const description = await loadRobotDescription(
+      join(import.meta.dirname, "..", "robot.yaml")
+    );
+    expect(description).toEqual(BUILT_IN);
+  });
+
+  it("should report everything wrong with a description", async () => {
+    const description = await loadRobotDescription(
+      join(import.meta.dirname, "..", "robot.yaml")
+    );
+    const raw = {
+      port: "COM3",
+      joints: Object.fromEntries(
+        Object.entries(description.joints).map(([name, joint]) => [
+          name,
+          {
+            stepPin: joint.STEP_PIN,
+            dirPin: joint.DIR_PIN,
+            homeSwitchPin: joint.HOME_SWITCH_PIN,
+            stepsPerMotorRev: 200,
+            microstepping: 4,
+            gearRatio: 10,
+            maxSpeed: joint.MAX_SPEED,
+            maxAcceleration: joint.MAX_ACCELERATION,
+            range: joint.RANGE,
+            homing: {
+              speed: joint.HOMING_SPEED,
+              direction: joint.HOMING_DIRECTION,
+            },
+          },
+        ])
+      ),
+      dh: description.dh,
+    };
+    expect(() => validateRobotDescription(raw)).not.toThrow();
+
+    raw.joints.J2.range = [108, -20];
+    raw.joints.J3.dirPin = 25;
+    raw.joints.J4.maxSpeed = 0;
+    raw.joints.J5.homing.direction = "up" as never;
+    raw.joints.J6.microstepping = 2.5;
+    (raw.joints.J1 as Record<string, unknown>).brake = true;
+    delete raw.dh.J6;
+
+    expect(errorsOf(raw)).toEqual([
+      "joints.J1.brake is not a known field.",
+      "joints.J2.range is inverted or empty, 108 must be below -20.",
+      "joints.J3.dirPin uses pin 25, which joints.J1.stepPin already uses.",
+      "joints.J4.maxSpeed must be positive, got 0.",
+      'joints.J5.homing.direction must be "positive" or "negative".',
+      "joints.J6.microstepping must be a whole number of 1 or more.",
+      "dh.J6 is missing.",
+    ]);
+    expect(errorsOf({ joints: {} })).toContain(
+      "port must name the board's serial port."
+    );
+  });
+
+  it("should read the encoders of the joints that have one", async () => {
+    const raw = parseYaml(
+      await readFile(join(import.meta.dirname, "..", "robot.yaml"), "utf8")
+    );
+    raw.joints.J1.encoder = {
+      pinA: 3,
+      pinB: 4,
+      countsPerRev: 4000,
+      tolerance: 0.5,
+    };
+    expect(validateRobotDescription(raw).joints.J1.ENCODER).toEqual({
+      PIN_A: 3,
+      PIN_B: 4,
+      COUNTS_PER_REV: 4000,
+      TOLERANCE: 0.5,
+    });
+    expect(validateRobotDescription(raw).joints.J2.ENCODER).toBeUndefined();
+
+    raw.joints.J2.encoder = { pinA: 4, pinB: 5, countsPerRev: 0.5 };
+    expect(errorsOf(raw)).toEqual([
+      "joints.J2.encoder.pinA uses pin 4, which joints.J1.encoder.pinB already uses.",
+      "joints.J2.encoder.countsPerRev must be a whole number of 1 or more.",
+      "joints.J2.encoder.tolerance must be a number.",
+    ]);
+  });
+
+  it("should load JSON and report files that do not parse", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "description-"));
+    try {
+      const json = join(directory, "arm.json");
+      await writeFile(json, JSON.stringify({ port: "/dev/ttyACM0" }));
+      await expect(loadRobotDescription(json)).rejects.toThrow(
+        /arm.json is not a valid robot description:\n {2}- joints must be an object/
+      );
+
+      const yaml = join(directory, "arm.yaml");
+      await writeFile(yaml, "port: [COM3\n");
+      await expect(loadRobotDescription(yaml)).rejects.toBeInstanceOf(
+        RobotDescriptionError
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should save new DH parameters, keeping the rest of the file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "description-"));
+    try {
+      const yaml = join(directory, "robot.yaml");
+      const original = await readFile(
+        join(import.meta.dirname, "..", "robot.yaml"),
+        "utf8"
+      );
+      await writeFile(yaml, original);
+      const dh = structuredClone(DEFAULT_DH_PARAMETERS);
+      dh.J2.a = 301.25;
+      dh.J3.thetaOffset = 180.5;
+      await saveDHParameters(yaml, dh);
+
+      const contents = await readFile(yaml, "utf8");
+      expect(contents).toContain("# Denavit-Hartenberg parameters");
+      expect(contents).toContain(
+        "J2: { thetaOffset: -90, d: 0, a: 301.25, alpha: 0 }"
+      );
+      expect(await loadRobotDescription(yaml)).toEqual({ ...BUILT_IN, dh });
+
+      const json = join(directory, "arm.json");
+      await writeFile(json, JSON.stringify(parseYaml(original)));
+      await saveDHParameters(json, dh);
+      expect((await loadRobotDescription(json)).dh).toEqual(dh);
+
+      // Nothing is written when the result would not load
+      await expect(
+        saveDHParameters(yaml, { ...dh, J6: { ...dh.J6, d: NaN } })
+      ).rejects.toThrow("dh.J6.d must be a number.");
+      expect(await readFile(yaml, "utf8")).toBe(contents);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should run with the joints and DH parameters it describes", () => {
+    const before = createKinematics().forwardKinematics([0, 0, 0, 0, 0, 0]);
+    const description = structuredClone(BUILT_IN);
+    description.joints.J1.RANGE = [-90, 90];
+    description.dh.J1.d += 16;
+    applyRobotDescription(description);
+
+    expect(JOINT_CONFIGS.J1.RANGE).toEqual([-90, 90]);
+    const after = createKinematics().forwardKinematics([0, 0, 0, 0, 0, 0]);
+    expect(after[2][3] - before[2][3]).toBeCloseTo(16, 6);
+  });
+});
@@ -0,0 +1,317 @@
+import { readFile, writeFile } from "fs/promises";
+import { extname } from "path";
+import { parse as parseYaml, parseDocument } from "yaml";
+import { JOINT_CONFIGS, type MotorConfig } from "../config.ts";
+import { type DHDescription, setDHParameters } from "./kinematics.ts";
+
+/**
+ * Everything that differs between arms, as loaded from a robot description file.
+ */
+export type RobotDescription = {
+  /**
+   * Serial port of the board, e.g. "COM3" or "/dev/ttyACM0", or "auto" to look for it
+   */
+  port: string;
+  joints: Record<string, MotorConfig>;
+  dh: Record<string, DHDescription>;
+};
+
+/**
+ * A robot description that does not describe a usable arm, with everything wrong with it.
+ */
+export class RobotDescriptionError extends Error {
+  constructor(source: string, public errors: string[]) {
+    super(
+      `${source} is not a valid robot description:\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+    this.name = "RobotDescriptionError";
+  }
+}
+
+const JOINT_NAMES = ["J1", "J2", "J3", "J4", "J5", "J6"];
+
+const JOINT_FIELDS = [
+  "stepPin",
+  "dirPin",
+  "homeSwitchPin",
+  "stepsPerMotorRev",
+  "microstepping",
+  "gearRatio",
+  "maxSpeed",
+  "maxAcceleration",
+  "range",
+  "homing",
+  "encoder",
+];
+
+const ENCODER_FIELDS = ["pinA", "pinB", "countsPerRev", "tolerance"];
+
+const DH_FIELDS = ["thetaOffset", "d", "a", "alpha"];
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a description field by field, collecting every problem instead of stopping at the first.
+ */
+class Checker {
+  public errors: string[] = [];
+
+  public object(value: unknown, path: string, fields: string[]): Fields {
+    if (!isObject(value)) {
+      this.errors.push(`${path} must be an object.`);
+      return {};
+    }
+    for (const key of Object.keys(value)) {
+      if (!fields.includes(key)) {
+        this.errors.push(`${path}.${key} is not a known field.`);
+      }
+    }
+    return value;
+  }
+
+  public number(value: unknown, path: string): number {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.errors.push(`${path} must be a number.`);
+      return NaN;
+    }
+    return value;
+  }
+
+  public positive(value: unknown, path: string): number {
+    const number = this.number(value, path);
+    if (number <= 0) {
+      this.errors.push(`${path} must be positive, got ${number}.`);
+    }
+    return number;
+  }
+
+  public integer(value: unknown, path: string, min: number): number {
+    const number = this.number(value, path);
+    if (!Number.isNaN(number) && (!Number.isInteger(number) || number < min)) {
+      this.errors.push(`${path} must be a whole number of ${min} or more.`);
+    }
+    return number;
+  }
+}
+
+function checkJoint(
+  name: string,
+  value: unknown,
+  check: Checker,
+  pins: Map<number, string>
+): MotorConfig {
+  const path = `joints.${name}`;
+  const joint = check.object(value, path, JOINT_FIELDS);
+
+  const pin = (field: string, fields = joint, parent = path) => {
+    const number = check.integer(fields[field], `${parent}.${field}`, 0);
+    if (pins.has(number)) {
+      check.errors.push(
+        `${parent}.${field} uses pin ${number}, which ${pins.get(
+          number
+        )} already uses.`
+      );
+    } else if (Number.isInteger(number)) {
+      pins.set(number, `${parent}.${field}`);
+    }
+    return number;
+  };
+
+  let range: [number, number] = [NaN, NaN];
+  if (!Array.isArray(joint.range) || joint.range.length !== 2) {
+    check.errors.push(`${path}.range must be [min, max] in degrees.`);
+  } else {
+    range = [
+      check.number(joint.range[0], `${path}.range[0]`),
+      check.number(joint.range[1], `${path}.range[1]`),
+    ];
+    if (range[0] >= range[1]) {
+      check.errors.push(
+        `${path}.range is inverted or empty, ${range[0]} must be below ${range[1]}.`
+      );
+    }
+  }
+
+  const homing = check.object(joint.homing, `${path}.homing`, [
+    "speed",
+    "direction",
+  ]);
+  if (homing.direction !== "positive" && homing.direction !== "negative") {
+    check.errors.push(
+      `${path}.homing.direction must be "positive" or "negative".`
+    );
+  }
+
+  const config: MotorConfig = {
+    NAME: name,
+    STEP_PIN: pin("stepPin"),
+    DIR_PIN: pin("dirPin"),
+    HOME_SWITCH_PIN: pin("homeSwitchPin"),
+    STEPS_PER_REV:
+      check.integer(joint.stepsPerMotorRev, `${path}.stepsPerMotorRev`, 1) *
+      check.integer(joint.microstepping, `${path}.microstepping`, 1) *
+      check.positive(joint.gearRatio, `${path}.gearRatio`),
+    MAX_SPEED: check.positive(joint.maxSpeed, `${path}.maxSpeed`),
+    MAX_ACCELERATION: check.positive(
+      joint.maxAcceleration,
+      `${path}.maxAcceleration`
+    ),
+    RANGE: range,
+    HOMING_SPEED: check.positive(homing.speed, `${path}.homing.speed`),
+    HOMING_DIRECTION: homing.direction as MotorConfig["HOMING_DIRECTION"],
+  };
+  if (joint.encoder !== undefined) {
+    const encoder = check.object(
+      joint.encoder,
+      `${path}.encoder`,
+      ENCODER_FIELDS
+    );
+    config.ENCODER = {
+      PIN_A: pin("pinA", encoder, `${path}.encoder`),
+      PIN_B: pin("pinB", encoder, `${path}.encoder`),
+      COUNTS_PER_REV: check.integer(
+        encoder.countsPerRev,
+        `${path}.encoder.countsPerRev`,
+        1
+      ),
+      TOLERANCE: check.positive(encoder.tolerance, `${path}.encoder.tolerance`),
+    };
+  }
+  return config;
+}
+
+function checkDH(name: string, value: unknown, check: Checker): DHDescription {
+  const path = `dh.${name}`;
+  const dh = check.object(value, path, DH_FIELDS);
+  return {
+    thetaOffset: check.number(dh.thetaOffset ?? 0, `${path}.thetaOffset`),
+    d: check.number(dh.d, `${path}.d`),
+    a: check.number(dh.a, `${path}.a`),
+    alpha: check.number(dh.alpha, `${path}.alpha`),
+  };
+}
+
+/**
+ * Checks a parsed robot description and turns it into the shape the code uses.
+ * Every joint J1 to J6 needs its pins, gearing, speeds, range and homing, and its DH parameters.
+ * An encoder on a joint is optional.
+ * @param value The parsed JSON or YAML.
+ * @param source Where it came from, for the error message.
+ * @throws RobotDescriptionError listing everything that is wrong.
+ */
+export function validateRobotDescription(
+  value: unknown,
+  source = "Robot description"
+): RobotDescription {
+  const check = new Checker();
+  const description = check.object(value, "description", [
+    "port",
+    "joints",
+    "dh",
+  ]);
+  if (typeof description.port !== "string" || !description.port.trim()) {
+    check.errors.push("port must name the board's serial port.");
+  }
+
+  const joints = check.object(description.joints, "joints", JOINT_NAMES);
+  const dh = check.object(description.dh, "dh", JOINT_NAMES);
+  const pins = new Map<number, string>();
+  const result: RobotDescription = {
+    port: description.port as string,
+    joints: {},
+    dh: {},
+  };
+  for (const name of JOINT_NAMES) {
+    if (joints[name] === undefined) {
+      check.errors.push(`joints.${name} is missing.`);
+    } else {
+      result.joints[name] = checkJoint(name, joints[name], check, pins);
+    }
+    if (dh[name] === undefined) {
+      check.errors.push(`dh.${name} is missing.`);
+    } else {
+      result.dh[name] = checkDH(name, dh[name], check);
+    }
+  }
+
+  if (check.errors.length > 0) {
+    throw new RobotDescriptionError(source, check.errors);
+  }
+  return result;
+}
+
+/**
+ * Reads and checks a robot description, YAML for .yaml and .yml files and JSON otherwise.
+ * @throws RobotDescriptionError if the file cannot be parsed or does not describe a usable arm.
+ */
+export async function loadRobotDescription(
+  path: string
+): Promise<RobotDescription> {
+  const contents = await readFile(path, "utf8");
+  let value: unknown;
+  try {
+    value = [".yaml", ".yml"].includes(extname(path).toLowerCase())
+      ? parseYaml(contents)
+      : JSON.parse(contents);
+  } catch (error) {
+    throw new RobotDescriptionError(path, [error.message]);
+  }
+  return validateRobotDescription(value, path);
+}
+
+/**
+ * Replaces the DH parameters in a robot description file, e.g. after a calibration, keeping the
+ * rest of it and the comments of a YAML file. They take effect the next time it is loaded.
+ * @param path The robot description, YAML for .yaml and .yml files and JSON otherwise.
+ * @param dh The DH parameters of every joint J1 to J6.
+ * @throws RobotDescriptionError if the file, with the new DH parameters, does not describe a
+ * usable arm. Nothing is written then.
+ */
+export async function saveDHParameters(
+  path: string,
+  dh: Record<string, DHDescription>
+) {
+  const contents = await readFile(path, "utf8");
+  const yaml = [".yaml", ".yml"].includes(extname(path).toLowerCase());
+  let updated: string;
+  try {
+    if (yaml) {
+      const document = parseDocument(contents);
+      for (const [name, params] of Object.entries(dh)) {
+        // One line per joint, like the description is written
+        document.setIn(
+          ["dh", name],
+          document.createNode(params, { flow: true })
+        );
+      }
+      updated = document.toString();
+    } else {
+      updated = `${JSON.stringify({ ...JSON.parse(contents), dh }, null, 2)}\n`;
+    }
+  } catch (error) {
+    throw new RobotDescriptionError(path, [error.message]);
+  }
+  validateRobotDescription(
+    yaml ? parseYaml(updated) : JSON.parse(updated),
+    path
+  );
+  await writeFile(path, updated);
+}
+
+/**
+ * Makes a description the one the code runs with, replacing JOINT_CONFIGS and the DH
+ * parameters. Must happen before the board and the Robot are created.
+ */
+export function applyRobotDescription(description: RobotDescription) {
+  for (const name of Object.keys(JOINT_CONFIGS)) {
+    delete JOINT_CONFIGS[name];
+  }
+  Object.assign(JOINT_CONFIGS, description.joints);
+  setDHParameters(description.dh);
+}
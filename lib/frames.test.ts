@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  FrameManager,
+  frameFromPoints,
+  toBaseFrame,
+  toUserFrame,
+} from "./frames.ts";
+import { type TPose } from "./robot.ts";
+
+function expectPoseCloseTo(actual: TPose, expected: TPose) {
+  expected.forEach((value, index) =>
+    expect(actual[index]).toBeCloseTo(value, 6)
+  );
+}
+
+describe("User frames", () => {
+  it("should define a frame from an origin, an X point and an XY plane point", () => {
+    // X along the base Y, Y along the base -X, on a table 20 mm below the base
+    const frame = frameFromPoints(
+      [300, 100, -20],
+      [300, 250, -20],
+      [200, 180, -20]
+    );
+    expectPoseCloseTo(frame, [300, 100, -20, 0, 0, 90]);
+
+    // Tilted about the X axis by lifting the plane point
+    const tilted = frameFromPoints([0, 0, 0], [100, 0, 0], [0, 100, 100]);
+    expectPoseCloseTo(tilted, [0, 0, 0, 45, 0, 0]);
+  });
+
+  it("should reject points that do not span a plane", () => {
+    expect(() => frameFromPoints([0, 0, 0], [0.5, 0, 0], [0, 100, 0])).toThrow(
+      /at least 1 mm/
+    );
+    expect(() =>
+      frameFromPoints([0, 0, 0], [100, 0, 0], [200, 0.01, 0])
+    ).toThrow(/on one line/);
+  });
+
+  it("should convert poses between a user frame and the base", () => {
+    const frame: TPose = [300, 100, -20, 0, 0, 90];
+    const inFrame: TPose = [50, 10, 30, 180, 0, 0];
+
+    const inBase = toBaseFrame(inFrame, frame);
+    [290, 150, 10].forEach((value, index) =>
+      expect(inBase[index]).toBeCloseTo(value, 6)
+    );
+    expectPoseCloseTo(toUserFrame(inBase, frame), inFrame);
+  });
+
+  it("should keep user frames by name", () => {
+    const frames = new FrameManager();
+    frames.teach("table", [300, 100, -20], [300, 250, -20], [200, 180, -20]);
+    frames.add({ name: "vise", frame: [0, 0, 0, 0, 0, 0] });
+    expect(frames.list().map((frame) => frame.name)).toEqual(["table", "vise"]);
+
+    const pose: TPose = [10, 0, 0, 0, 0, 0];
+    expectPoseCloseTo(frames.toBase(pose, "table"), [300, 110, -20, 0, 0, 90]);
+    expect(frames.toBase(pose, "base")).toEqual(pose);
+    expect(frames.get("base").frame).toEqual([0, 0, 0, 0, 0, 0]);
+
+    expect(() => frames.add({ name: "tool", frame: pose })).toThrow(
+      /cannot name a user frame/
+    );
+    frames.remove("vise");
+    expect(() => frames.get("vise")).toThrow(/No user frame named "vise"/);
+    expect(() => frames.remove("base")).toThrow(/No user frame named/);
+  });
+});
@@ -0,0 +1,201 @@
+import { cross, inv, multiply, norm, subtract } from "mathjs";
+import { Kinematics } from "./kinematics.ts";
+import { type TPose } from "./robot.ts";
+
+type TPoint = [number, number, number]; // [x, y, z]
+
+/**
+ * A named coordinate system on a fixture or work object
+ */
+export type UserFrame = {
+  name: string;
+  /**
+   * Origin and orientation [x, y, z, rx, ry, rz] relative to the robot base, rotations in degrees
+   */
+  frame: TPose;
+};
+
+/**
+ * The names poses can always be given in: the robot base, and the frame jogs use for the
+ * tool's own axes. User frames cannot take them.
+ */
+export const RESERVED_FRAME_NAMES = ["base", "tool"];
+
+// Taught points closer than this (mm) cannot give a direction
+const MIN_TEACH_DISTANCE = 1;
+
+/**
+ * @throws If the frame has a reserved or empty name, or is not 6 numbers.
+ */
+export function validateUserFrame(frame: UserFrame) {
+  if (!frame.name?.trim() || RESERVED_FRAME_NAMES.includes(frame.name)) {
+    throw new Error(
+      `"${frame.name}" cannot name a user frame, ${RESERVED_FRAME_NAMES.join(
+        " and "
+      )} are taken.`
+    );
+  }
+  if (
+    frame.frame?.length !== 6 ||
+    !frame.frame.every((value) => Number.isFinite(value))
+  ) {
+    throw new Error(`User frame "${frame.name}" needs 6 numbers.`);
+  }
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function poseToMatrix([x, y, z, rx, ry, rz]: TPose): number[][] {
+  return Kinematics.createHomogeneousMatrix(
+    x,
+    y,
+    z,
+    toRadians(rx),
+    toRadians(ry),
+    toRadians(rz)
+  );
+}
+
+function matrixToPose(matrix: number[][]): TPose {
+  const { x, y, z, rx, ry, rz } = Kinematics.extractHomogeneousMatrix(matrix);
+  return [x, y, z, rx, ry, rz];
+}
+
+/**
+ * The frame defined by three taught points: the origin, a point along its X axis, and a point
+ * on its XY plane on the positive Y side.
+ * @throws If the points are too close together or on one line.
+ */
+export function frameFromPoints(
+  origin: TPoint,
+  xPoint: TPoint,
+  xyPoint: TPoint
+): TPose {
+  const alongX = subtract(xPoint, origin) as number[];
+  const inPlane = subtract(xyPoint, origin) as number[];
+  const length = (vector: number[]) => norm(vector) as number;
+  if (
+    length(alongX) < MIN_TEACH_DISTANCE ||
+    length(inPlane) < MIN_TEACH_DISTANCE
+  ) {
+    throw new Error(
+      `Frame points must be at least ${MIN_TEACH_DISTANCE} mm from the origin.`
+    );
+  }
+  const normal = cross(alongX, inPlane) as number[];
+  // The sine of the angle between the X axis and the plane point
+  if (length(normal) / (length(alongX) * length(inPlane)) < 1e-3) {
+    throw new Error("Frame points must not lie on one line.");
+  }
+  const unit = (vector: number[]) =>
+    vector.map((value) => value / length(vector));
+  const xAxis = unit(alongX);
+  const zAxis = unit(normal);
+  const yAxis = cross(zAxis, xAxis) as number[];
+  return matrixToPose([
+    [xAxis[0], yAxis[0], zAxis[0], origin[0]],
+    [xAxis[1], yAxis[1], zAxis[1], origin[1]],
+    [xAxis[2], yAxis[2], zAxis[2], origin[2]],
+    [0, 0, 0, 1],
+  ]);
+}
+
+/**
+ * A pose given in a frame, in the base frame instead.
+ * @param pose The pose [x, y, z, rx, ry, rz] relative to the frame.
+ * @param frame The frame relative to the base.
+ */
+export function toBaseFrame(pose: TPose, frame: TPose): TPose {
+  return matrixToPose(multiply(poseToMatrix(frame), poseToMatrix(pose)));
+}
+
+/**
+ * A pose given in the base frame, relative to another frame instead.
+ * @param pose The pose [x, y, z, rx, ry, rz] relative to the base.
+ * @param frame The frame relative to the base.
+ */
+export function toUserFrame(pose: TPose, frame: TPose): TPose {
+  return matrixToPose(multiply(inv(poseToMatrix(frame)), poseToMatrix(pose)));
+}
+
+/**
+ * The user frames of the cell. Poses can be given in any of them, so when a fixture moves,
+ * re-teaching its frame moves everything defined in it along.
+ */
+export class FrameManager {
+  private frames: Map<string, UserFrame> = new Map();
+
+  /**
+   * All user frames, sorted by name.
+   */
+  public list(): UserFrame[] {
+    return [...this.frames.values()].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * @param name A user frame, or "base".
+   * @throws If there is no frame with that name.
+   */
+  public get(name: string): UserFrame {
+    if (name === "base") {
+      return { name, frame: [0, 0, 0, 0, 0, 0] };
+    }
+    const frame = this.frames.get(name);
+    if (!frame) {
+      throw new Error(`No user frame named "${name}".`);
+    }
+    return frame;
+  }
+
+  /**
+   * Adds a frame, or replaces the one with the same name.
+   */
+  public add(frame: UserFrame) {
+    validateUserFrame(frame);
+    this.frames.set(frame.name, { name: frame.name, frame: [...frame.frame] });
+  }
+
+  public remove(name: string) {
+    if (!this.frames.delete(name)) {
+      throw new Error(`No user frame named "${name}".`);
+    }
+  }
+
+  /**
+   * Defines a frame from three points in the base frame, e.g. where the tool center point
+   * was jogged to on the fixture.
+   * @param name The frame, replaced if it exists.
+   * @param origin The frame's origin.
+   * @param xPoint A point on the frame's positive X axis.
+   * @param xyPoint A point on the frame's XY plane, on the positive Y side.
+   */
+  public teach(
+    name: string,
+    origin: TPoint,
+    xPoint: TPoint,
+    xyPoint: TPoint
+  ): UserFrame {
+    this.add({ name, frame: frameFromPoints(origin, xPoint, xyPoint) });
+    return this.get(name);
+  }
+
+  /**
+   * @param pose A pose relative to the named frame.
+   * @param name A user frame, or "base".
+   */
+  public toBase(pose: TPose, name: string): TPose {
+    return name === "base" ? pose : toBaseFrame(pose, this.get(name).frame);
+  }
+
+  /**
+   * @param pose A pose relative to the base.
+   * @param name A user frame, or "base".
+   */
+  public fromBase(pose: TPose, name: string): TPose {
+    return name === "base" ? pose : toUserFrame(pose, this.get(name).frame);
+  }
+}
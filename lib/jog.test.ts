@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import EventEmitter from "events";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+describe("Jog on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+  });
+
+  afterEach(() => {
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  it("should refuse to jog before homing", async () => {
+    await expect(robot.jog.jogBy(1)).rejects.toThrow(/must be homed/);
+    expect(() => robot.jog.jogContinuous(1)).toThrow(/must be homed/);
+  });
+
+  it("should jog a joint and stop at the end of its range", async () => {
+    await runFor(robot.home(), 120_000);
+    robot.jog.setAxis("J2");
+    robot.jog.setIncrement(5);
+    await runFor(robot.jog.jogBy(2), 30_000);
+    expect(robot.J2.Degrees).toBeCloseTo(10, 1);
+
+    robot.jog.setAxis("J3");
+    robot.jog.setIncrement(10);
+    await runFor(robot.jog.jogBy(10), 30_000);
+    expect(robot.J3.Degrees).toBeCloseTo(JOINT_CONFIGS.J3.RANGE[1], 1);
+    expect(() => robot.jog.setIncrement(3)).toThrow(/must be one of/);
+  });
+
+  it("should jog along the base and tool axes", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 60, 5]), 30_000);
+    const [x, y, z, rx, ry, rz] = robot.Pose;
+
+    robot.jog.setAxis("X", "base");
+    robot.jog.setIncrement(10);
+    await runFor(robot.jog.jogBy(1), 30_000);
+    await vi.advanceTimersByTimeAsync(10_000);
+    let pose = robot.Pose;
+    expect(pose[0]).toBeCloseTo(x + 10, 0);
+    expect(pose[1]).toBeCloseTo(y, 0);
+    expect(pose[2]).toBeCloseTo(z, 0);
+
+    robot.jog.setAxis("Z", "tool");
+    robot.jog.setIncrement(5);
+    const before = robot.Pose;
+    await runFor(robot.jog.jogBy(-1), 30_000);
+    await vi.advanceTimersByTimeAsync(10_000);
+    pose = robot.Pose;
+    const travelled = Math.hypot(
+      pose[0] - before[0],
+      pose[1] - before[1],
+      pose[2] - before[2]
+    );
+    expect(travelled).toBeCloseTo(5, 0);
+    [rx, ry, rz].forEach((angle, index) => {
+      expect(pose[3 + index]).toBeCloseTo(angle, 0);
+    });
+
+    robot.jog.setAxis("Rz", "base");
+    const pivot = robot.Pose;
+    await runFor(robot.jog.jogBy(1), 30_000);
+    await vi.advanceTimersByTimeAsync(10_000);
+    pose = robot.Pose;
+    [0, 1, 2].forEach((index) => {
+      expect(pose[index]).toBeCloseTo(pivot[index], 0);
+    });
+    const turned = ((((pose[5] - pivot[5]) % 360) + 540) % 360) - 180;
+    expect(turned).toBeCloseTo(5, 0);
+  });
+
+  it("should jog along the axes of a user frame", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 60, 5]), 30_000);
+    // Turned a quarter turn about the base Z axis, so its X runs along the base Y
+    robot.frames.add({ name: "fixture", frame: [300, 0, 0, 0, 0, 90] });
+    const [x, y, z] = robot.Pose;
+
+    robot.jog.setAxis("X", "fixture");
+    robot.jog.setIncrement(10);
+    await runFor(robot.jog.jogBy(1), 30_000);
+    await vi.advanceTimersByTimeAsync(10_000);
+    const pose = robot.Pose;
+    expect(pose[0]).toBeCloseTo(x, 0);
+    expect(pose[1]).toBeCloseTo(y + 10, 0);
+    expect(pose[2]).toBeCloseTo(z, 0);
+
+    expect(() => robot.jog.setAxis("X", "table")).toThrow(
+      /No user frame named "table"/
+    );
+    expect(robot.jog.Frame).toBe("fixture");
+  });
+
+  it("should jog one increment per handwheel detent", async () => {
+    await runFor(robot.home(), 120_000);
+    const handwheel = new EventEmitter();
+    robot.jog.attachHandwheel(handwheel);
+    robot.jog.setAxis("J1");
+    robot.jog.setIncrement(1);
+
+    handwheel.emit("change", 0);
+    handwheel.emit("change", 1);
+    // Turned further while the first detent is still moving
+    await vi.advanceTimersByTimeAsync(100);
+    handwheel.emit("change", 2);
+    handwheel.emit("change", 4);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(robot.J1.Degrees).toBeCloseTo(4, 1);
+
+    handwheel.emit("change", 1);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(robot.J1.Degrees).toBeCloseTo(1, 1);
+
+    robot.jog.detachHandwheel();
+    handwheel.emit("change", 5);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(robot.J1.Degrees).toBeCloseTo(1, 1);
+  });
+
+  it("should stop a continuous jog once it is no longer kept alive", async () => {
+    await runFor(robot.home(), 120_000);
+    robot.jog.setAxis("J1");
+    robot.jog.setIncrement(1);
+
+    robot.jog.jogContinuous(1, 2_000);
+    await vi.advanceTimersByTimeAsync(1_500);
+    robot.jog.jogContinuous(1, 2_000);
+    await vi.advanceTimersByTimeAsync(10_000);
+    const stoppedAt = robot.J1.Degrees;
+    expect(stoppedAt).toBeGreaterThan(1);
+    expect(robot.jog.Busy).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(robot.J1.Degrees).toBe(stoppedAt);
+  });
+
+  it("should end a continuous jog at the end of the joint's range", async () => {
+    await runFor(robot.home(), 120_000);
+    robot.jog.setAxis("J3");
+    robot.jog.setIncrement(10);
+
+    robot.jog.jogContinuous(1, 60_000);
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(robot.J3.Degrees).toBeCloseTo(JOINT_CONFIGS.J3.RANGE[1], 1);
+    expect(robot.jog.Busy).toBe(false);
+
+    // Already there, it tries once and ends
+    const moveJ = vi.spyOn(robot, "moveJ");
+    robot.jog.jogContinuous(1, 60_000);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(moveJ).toHaveBeenCalledTimes(1);
+    expect(robot.jog.Busy).toBe(false);
+  });
+});
@@ -0,0 +1,313 @@
+import type EventEmitter from "events";
+import pino from "pino";
+import { inv, multiply } from "mathjs";
+import { JOINT_CONFIGS } from "../config.ts";
+import { Kinematics } from "./kinematics.ts";
+import { type Robot, type TPose } from "./robot.ts";
+
+export type JogAxis =
+  | "J1"
+  | "J2"
+  | "J3"
+  | "J4"
+  | "J5"
+  | "J6"
+  | "X"
+  | "Y"
+  | "Z"
+  | "Rx"
+  | "Ry"
+  | "Rz";
+
+/**
+ * The frame Cartesian axes are taken in: the robot base, the tool itself (so Z jogs along
+ * the tool's approach direction), or any other name for one of the robot's user frames
+ */
+export type JogFrame = "base" | "tool" | (string & {});
+
+/**
+ * Anything that reports a detent position in "change" events, like lib/Encoder.js
+ */
+export type Handwheel = Pick<EventEmitter, "on" | "off">;
+
+/**
+ * Distance of one jog step, in mm for X/Y/Z and degrees for joints and rotations
+ */
+export const JOG_INCREMENTS = [0.01, 0.1, 1, 5, 10];
+
+const CARTESIAN_AXES: JogAxis[] = ["X", "Y", "Z", "Rx", "Ry", "Rz"];
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Moves the arm by small steps along one axis at a time, from calls or from a handwheel.
+ * Steps never overlap: detents turned while the arm is moving are added up and run as
+ * one step once it stops.
+ */
+export class Jog {
+  private axis: JogAxis = "J1";
+  private frame: JogFrame = "base";
+  private increment = 1;
+  private busy = false;
+  // Detents turned on the handwheel that have not been jogged yet
+  private pendingDetents = 0;
+  private handwheel: Handwheel | undefined;
+  private handwheelPosition: number | undefined;
+  private continuous: { direction: 1 | -1; deadline: number } | undefined;
+  private logger: pino.Logger;
+
+  get Axis(): JogAxis {
+    return this.axis;
+  }
+
+  get Frame(): JogFrame {
+    return this.frame;
+  }
+
+  get Increment(): number {
+    return this.increment;
+  }
+
+  get Busy(): boolean {
+    return this.busy;
+  }
+
+  constructor(private robot: Robot) {
+    this.logger = pino({
+      name: "Jog",
+      level: "info",
+      base: { name: "Jog" },
+      timestamp: pino.stdTimeFunctions.isoTime,
+    });
+  }
+
+  public setAxis(axis: JogAxis, frame: JogFrame = this.frame) {
+    if (!JOINT_CONFIGS[axis] && !CARTESIAN_AXES.includes(axis)) {
+      throw new Error(`Unknown jog axis "${axis}".`);
+    }
+    if (frame !== "tool") {
+      this.robot.frames.get(frame);
+    }
+    this.axis = axis;
+    this.frame = frame;
+    this.pendingDetents = 0;
+  }
+
+  /**
+   * @param increment One of JOG_INCREMENTS.
+   */
+  public setIncrement(increment: number) {
+    if (!JOG_INCREMENTS.includes(increment)) {
+      throw new Error(
+        `Jog increment must be one of ${JOG_INCREMENTS.join(
+          ", "
+        )}, got ${increment}.`
+      );
+    }
+    this.increment = increment;
+  }
+
+  /**
+   * Jogs the selected axis by a number of increments.
+   * Joint jogs stop at the end of the joint's range, Cartesian jogs move in a straight line.
+   * @param steps Increments to move, negative to go the other way.
+   */
+  public async jogBy(steps: number) {
+    if (!this.robot.Homed) {
+      throw new Error("Robot must be homed before jogging.");
+    }
+    if (this.busy) {
+      throw new Error("A jog step is already running.");
+    }
+    if (steps === 0) return;
+
+    this.busy = true;
+    try {
+      const distance = steps * this.increment;
+      if (CARTESIAN_AXES.includes(this.axis)) {
+        await this.robot.moveToLinearly(this.jogPose(distance));
+      } else {
+        await this.robot.moveJ({ joints: this.jogJoints(distance) });
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Keeps jogging the selected axis one increment after another. Every call pushes the
+   * deadline back, once it passes without another call no further increment is started, so a
+   * lost connection or a released button cannot leave the arm running for more than one step.
+   * A joint jog ends once the joint reaches the end of its range.
+   * @param direction 1 for positive, -1 for negative.
+   * @param timeoutMs How long the jog lasts without another call.
+   */
+  public jogContinuous(direction: 1 | -1, timeoutMs = 500) {
+    if (!this.robot.Homed) {
+      throw new Error("Robot must be homed before jogging.");
+    }
+    const deadline = Date.now() + timeoutMs;
+    if (this.continuous) {
+      this.continuous.direction = direction;
+      this.continuous.deadline = deadline;
+      return;
+    }
+    this.continuous = { direction, deadline };
+    this.runContinuous();
+  }
+
+  /**
+   * Ends a continuous jog and forgets unhandled handwheel detents. The step in progress finishes.
+   */
+  public stop() {
+    this.continuous = undefined;
+    this.pendingDetents = 0;
+  }
+
+  /**
+   * Jogs by one increment per detent of the handwheel, replacing any handwheel attached before.
+   * Resetting an Encoder while it is attached reads as turning it back to 0.
+   * @param handwheel An Encoder, or anything else that emits "change" with a detent position.
+   */
+  public attachHandwheel(handwheel: Handwheel) {
+    this.detachHandwheel();
+    this.handwheel = handwheel;
+    this.handwheelPosition = undefined;
+    handwheel.on("change", this.onHandwheelChange);
+  }
+
+  public detachHandwheel() {
+    this.handwheel?.off("change", this.onHandwheelChange);
+    this.handwheel = undefined;
+    this.pendingDetents = 0;
+  }
+
+  private onHandwheelChange = (position: number) => {
+    // The first report only tells where the wheel is
+    if (this.handwheelPosition === undefined) {
+      this.handwheelPosition = position;
+      return;
+    }
+    this.pendingDetents += position - this.handwheelPosition;
+    this.handwheelPosition = position;
+    if (!this.busy) {
+      this.runPendingDetents();
+    }
+  };
+
+  private async runPendingDetents() {
+    while (this.pendingDetents !== 0 && !this.busy) {
+      const detents = this.pendingDetents;
+      this.pendingDetents = 0;
+      try {
+        await this.jogBy(detents);
+      } catch (error) {
+        this.logger.warn(`Handwheel jog failed: ${error.message}`);
+        this.pendingDetents = 0;
+      }
+    }
+  }
+
+  private async runContinuous() {
+    while (this.continuous) {
+      if (Date.now() >= this.continuous.deadline) {
+        this.logger.info("Continuous jog timed out");
+        this.continuous = undefined;
+        break;
+      }
+      const joint = this.axis;
+      const before = this.jointAngles();
+      try {
+        await this.jogBy(this.continuous.direction);
+      } catch (error) {
+        this.logger.warn(`Continuous jog stopped: ${error.message}`);
+        this.continuous = undefined;
+      }
+      // At the end of its range the joint stops short of the next step
+      const index = Number(joint.slice(1)) - 1;
+      if (
+        this.continuous &&
+        !CARTESIAN_AXES.includes(joint) &&
+        this.jointAngles()[index] === before[index]
+      ) {
+        this.logger.info(`Continuous jog reached the limit of ${joint}`);
+        this.continuous = undefined;
+      }
+      // A step that does not move resolves at once, let the timers run in between
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  private jointAngles(): number[] {
+    return [
+      this.robot.J1,
+      this.robot.J2,
+      this.robot.J3,
+      this.robot.J4,
+      this.robot.J5,
+      this.robot.J6,
+    ].map((joint) => joint.Degrees);
+  }
+
+  /**
+   * The joint angles one jog away, kept inside the joint's range.
+   */
+  private jogJoints(distance: number): number[] {
+    const joints = this.jointAngles();
+    const index = Number(this.axis.slice(1)) - 1;
+    const [min, max] = JOINT_CONFIGS[this.axis].RANGE;
+    joints[index] = Math.min(max, Math.max(min, joints[index] + distance));
+    return joints;
+  }
+
+  /**
+   * The tool pose one jog away. Base and user frame jogs translate along and rotate about that
+   * frame's axes, tool frame jogs use the tool's own axes. Rotations always pivot on the tool
+   * center point.
+   */
+  private jogPose(distance: number): TPose {
+    const [x, y, z, rx, ry, rz] = this.robot.Pose;
+    const current = Kinematics.createHomogeneousMatrix(
+      x,
+      y,
+      z,
+      toRadians(rx),
+      toRadians(ry),
+      toRadians(rz)
+    );
+    const index = CARTESIAN_AXES.indexOf(this.axis);
+    const offset: TPose = [0, 0, 0, 0, 0, 0];
+    offset[index] = index < 3 ? distance : toRadians(distance);
+    const step = Kinematics.createHomogeneousMatrix(...offset);
+
+    let next: number[][];
+    if (this.frame === "tool") {
+      next = multiply(current, step);
+    } else {
+      // Turn the step into base coordinates, so it runs along the frame's axes
+      const [fx, fy, fz, frx, fry, frz] = this.robot.frames.get(
+        this.frame
+      ).frame;
+      const frame = Kinematics.createHomogeneousMatrix(
+        fx,
+        fy,
+        fz,
+        toRadians(frx),
+        toRadians(fry),
+        toRadians(frz)
+      );
+      const stepInBase = multiply(multiply(frame, step), inv(frame));
+      // Rotate about the frame's axes, then put the tool center point back where it was
+      next = multiply(stepInBase, current);
+      if (index >= 3) {
+        next[0][3] = x;
+        next[1][3] = y;
+        next[2][3] = z;
+      }
+    }
+    const pose = Kinematics.extractHomogeneousMatrix(next);
+    return [pose.x, pose.y, pose.z, pose.rx, pose.ry, pose.rz];
+  }
+}
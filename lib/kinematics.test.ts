@@ -1,5 +1,9 @@
 import { describe, it, expect } from "vitest";
-import { createKinematics, Kinematics } from "./kinematics.ts";
+import {
+  createKinematics,
+  DEFAULT_DH_PARAMETERS,
+  Kinematics,
+} from "./kinematics.ts";
 
 function matrixEqual(a: number[][], b: number[][]): boolean {
   if (a.length !== b.length || a[0].length !== b[0].length) {
@@ -162,3 +166,292 @@ describe("Inverse Kinematics J1 Angle", () => {
     expect(Kinematics.getJ1Angle(x, y)).toBeCloseTo(-91, 3);
   });
 });
+
+describe("Inverse Kinematics Solutions", () => {
+  const kinematics = createKinematics();
+
+  function poseOf(angles: number[]) {
+    const { x, y, z, rx, ry, rz } = Kinematics.extractHomogeneousMatrix(
+      kinematics.forwardKinematics(angles)
+    );
+    return [x, y, z, rx, ry, rz] as const;
+  }
+
+  it("should return solutions that all reach the same pose", () => {
+    const angles = [-100, 60, -60, -150, -50, 120];
+    const solutions = kinematics.inverseKinematicsSolutions(...poseOf(angles));
+    expect(solutions.length).toBe(2);
+    expect(solutions.map((solution) => solution.configuration.wrist)).toEqual([
+      "F",
+      "NF",
+    ]);
+    const expected = kinematics.forwardKinematics(angles);
+    solutions.forEach((solution) => {
+      expect(
+        matrixEqual(kinematics.forwardKinematics(solution.angles), expected)
+      ).toBe(true);
+    });
+  });
+
+  it("should pick the solution nearest to the current joint angles", () => {
+    const angles = [5, 2, 1, 32, 90, 12];
+    const pose = poseOf(angles);
+    const nearest = kinematics.inverseKinematicsNearest(...pose, angles);
+    nearest.forEach((angle, index) => {
+      expect(angle).toBeCloseTo(angles[index], 3);
+    });
+
+    const flipped = kinematics.inverseKinematicsNearest(
+      ...pose,
+      [5, 2, 1, -150, -90, -170]
+    );
+    expect(flipped[3]).toBeCloseTo(-148, 3);
+    expect(flipped[4]).toBeCloseTo(-90, 3);
+    expect(flipped[5]).toBeCloseTo(-168, 3);
+  });
+
+  it("should find the ±360° equivalent of a joint within its range", () => {
+    const angles = [0, 20, 10, -200, -30, 0];
+    const nearest = kinematics.inverseKinematicsNearest(
+      ...poseOf(angles),
+      angles
+    );
+    expect(nearest[3]).toBeCloseTo(-200, 3);
+  });
+
+  it("should keep J4 still at the wrist singularity", () => {
+    const angles = [10, 40, -30, 60, 0, 20];
+    const [solution] = kinematics.inverseKinematicsSolutions(...poseOf(angles));
+    expect(solution.angles[3]).toBeCloseTo(0, 3);
+    expect(solution.angles[4]).toBeCloseTo(0, 3);
+    expect(solution.angles[5]).toBeCloseTo(80, 3);
+  });
+
+  it("should solve poses a hair away from the wrist singularity", () => {
+    for (const angles of [
+      [10, 40, -30, 60, 1e-5, 20],
+      [-40, 20, 10, -30, -2e-6, 90],
+    ]) {
+      const pose = poseOf(angles);
+      expect(
+        kinematics.inverseKinematicsSolutions(...pose).length
+      ).toBeGreaterThan(0);
+      const nearest = kinematics.inverseKinematicsNearest(...pose, angles);
+      expect(
+        matrixEqual(
+          kinematics.forwardKinematics(nearest),
+          kinematics.forwardKinematics(angles)
+        )
+      ).toBe(true);
+    }
+  });
+
+  it("should return no solutions for a pose out of reach", () => {
+    const solutions = kinematics.inverseKinematicsSolutions(
+      1000,
+      0,
+      400,
+      180,
+      0,
+      180
+    );
+    expect(solutions).toEqual([]);
+    expect(() =>
+      kinematics.inverseKinematicsNearest(
+        1000,
+        0,
+        400,
+        180,
+        0,
+        180,
+        [0, 0, 0, 0, 0, 0]
+      )
+    ).toThrow(/No inverse kinematics solution/);
+  });
+});
+
+describe("Inverse Kinematics of a calibrated arm", () => {
+  // Zero offsets and lengths the closed-form solution does not model
+  const dh = structuredClone(DEFAULT_DH_PARAMETERS);
+  dh.J1.a += 1.2;
+  dh.J2.thetaOffset += 0.4;
+  dh.J2.d += 0.5;
+  dh.J3.thetaOffset -= 0.3;
+  dh.J3.d += 1;
+  dh.J4.d -= 0.9;
+  dh.J5.thetaOffset += 0.25;
+  dh.J6.d += 0.6;
+  const kinematics = createKinematics(dh);
+  kinematics.setToolFrame(20, 0, 80, 0, 0, 0);
+
+  it("should reach the pose it was asked for", () => {
+    for (const angles of [
+      [0, 0, 0, 0, 30, 0],
+      [30, 20, -15, 45, 60, -90],
+      [-100, 60, -60, -150, -50, 120],
+      [10, 40, -30, 60, 0, 20],
+      [10, 40, -30, 60, 1e-5, 20],
+    ]) {
+      const expected = kinematics.forwardKinematics(angles);
+      const { x, y, z, rx, ry, rz } =
+        Kinematics.extractHomogeneousMatrix(expected);
+
+      const solutions = kinematics.inverseKinematicsSolutions(
+        x,
+        y,
+        z,
+        rx,
+        ry,
+        rz
+      );
+      expect(solutions.length).toBeGreaterThan(0);
+      solutions.forEach((solution) =>
+        expectReaches(kinematics.forwardKinematics(solution.angles), expected)
+      );
+      const nearest = kinematics.inverseKinematicsNearest(
+        x,
+        y,
+        z,
+        rx,
+        ry,
+        rz,
+        angles
+      );
+      expectReaches(kinematics.forwardKinematics(nearest), expected);
+      expectReaches(
+        kinematics.forwardKinematics(
+          kinematics.inverseKinematics(x, y, z, rx, ry, rz)
+        ),
+        expected
+      );
+    }
+  });
+
+  function expectReaches(actual: number[][], expected: number[][]) {
+    actual.forEach((row, i) =>
+      row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], 5))
+    );
+  }
+});
+
+describe("Jacobian and Singularities", () => {
+  const kinematics = createKinematics();
+
+  it("should match the finite difference of forward kinematics", () => {
+    const angles = [10, 20, -15, 30, 45, -60];
+    const jacobian = kinematics.jacobian(angles);
+    const position = (angles: number[]) => {
+      const matrix = kinematics.forwardKinematics(angles);
+      return [matrix[0][3], matrix[1][3], matrix[2][3]];
+    };
+    const delta = 1e-4; // in degrees
+    const origin = position(angles);
+    angles.forEach((_, joint) => {
+      const moved = [...angles];
+      moved[joint] += delta;
+      const deltaRadians = (delta * Math.PI) / 180;
+      position(moved).forEach((value, axis) => {
+        expect((value - origin[axis]) / deltaRadians).toBeCloseTo(
+          jacobian[axis][joint],
+          1
+        );
+      });
+    });
+  });
+
+  it("should lose manipulability at the wrist singularity", () => {
+    const regular = kinematics.manipulability([10, 20, -15, 30, 45, -60]);
+    const singular = kinematics.manipulability([10, 20, -15, 30, 0, -60]);
+    expect(singular / regular).toBeLessThan(1e-6);
+  });
+
+  it("should name the singularities the arm is near", () => {
+    expect(kinematics.singularities([10, 20, -15, 30, 45, -60])).toEqual([]);
+    expect(
+      kinematics
+        .singularities([10, 20, -15, 30, 2, -60])
+        .map(({ type }) => type)
+    ).toEqual(["wrist"]);
+    expect(
+      kinematics
+        .singularities([10, 20, -89, 30, 45, -60])
+        .map(({ type }) => type)
+    ).toEqual(["elbow"]);
+  });
+
+  it("should detect the wrist center on the J1 axis", () => {
+    // With the upper arm upright, fold the forearm back until 65 + 227.328 * cos(J3) = 0
+    const J3 = (Math.acos(-65 / 227.328) * 180) / Math.PI;
+    const found = kinematics.singularities([0, 0, J3, 0, 45, 0]);
+    expect(found.map(({ type }) => type)).toContain("shoulder");
+  });
+});
+
+describe("Quaternions", () => {
+  const orientations = [
+    [0, 0, 0],
+    [30, -20, 10],
+    [162.69, 70.086, 167.213],
+    [-177.573, -12.341, -98.81],
+    [180, 0, 180],
+  ];
+
+  it("should round trip between matrices and quaternions", () => {
+    orientations.forEach(([rx, ry, rz]) => {
+      const matrix = Kinematics.createHomogeneousMatrix(
+        0,
+        0,
+        0,
+        (rx * Math.PI) / 180,
+        (ry * Math.PI) / 180,
+        (rz * Math.PI) / 180
+      );
+      const quaternion = Kinematics.matrixToQuaternion(matrix);
+      expect(Math.hypot(...quaternion)).toBeCloseTo(1, 9);
+      expect(
+        matrixEqual(Kinematics.quaternionToMatrix(quaternion), matrix)
+      ).toBe(true);
+    });
+  });
+
+  it("should round trip between Euler angles and quaternions", () => {
+    orientations.forEach(([rx, ry, rz]) => {
+      const euler = Kinematics.quaternionToEuler(
+        Kinematics.eulerToQuaternion(rx, ry, rz)
+      );
+      expect(euler.rx).toBeCloseTo(rx, 6);
+      expect(euler.ry).toBeCloseTo(ry, 6);
+      expect(euler.rz).toBeCloseTo(rz, 6);
+    });
+  });
+
+  it("should keep rx at zero when ry is 90 degrees", () => {
+    // The orientation of the zero joint angle pose
+    const euler = Kinematics.quaternionToEuler(
+      Kinematics.eulerToQuaternion(45, 90, 45)
+    );
+    expect(euler.rx).toBe(0);
+    expect(euler.ry).toBeCloseTo(90, 6);
+    expect(euler.rz).toBeCloseTo(0, 6);
+  });
+
+  it("should interpolate about a fixed axis at a constant rate", () => {
+    const from = Kinematics.eulerToQuaternion(0, 0, 0);
+    const to = Kinematics.eulerToQuaternion(0, 0, 90);
+    [0, 0.25, 0.5, 1].forEach((t) => {
+      const euler = Kinematics.quaternionToEuler(Kinematics.slerp(from, to, t));
+      expect(euler.rx).toBeCloseTo(0, 9);
+      expect(euler.ry).toBeCloseTo(0, 9);
+      expect(euler.rz).toBeCloseTo(90 * t, 9);
+    });
+  });
+
+  it("should take the shortest way round", () => {
+    const from = Kinematics.eulerToQuaternion(0, 0, 170);
+    const to = Kinematics.eulerToQuaternion(0, 0, -170);
+    const halfway = Kinematics.quaternionToEuler(
+      Kinematics.slerp(from, to, 0.5)
+    );
+    expect(Math.abs(halfway.rz)).toBeCloseTo(180, 9);
+  });
+});
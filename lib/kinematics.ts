@@ -1,4 +1,14 @@
-import { acos, atan2, inv, multiply, transpose, unit } from "mathjs";
+import {
+  acos,
+  atan2,
+  cross,
+  det,
+  inv,
+  lusolve,
+  multiply,
+  transpose,
+  unit,
+} from "mathjs";
 import { JOINT_CONFIGS } from "../config.ts";
 
 type TheFourDHParameters = {
@@ -8,6 +18,88 @@ type TheFourDHParameters = {
   a: number;
 };
 
+/**
+ * Which of the arm's inverse kinematics branches a set of joint angles is on.
+ */
+export type IKConfiguration = {
+  /**
+   * Whether J1 faces the wrist center or reaches over the back
+   */
+  shoulder: "front" | "back";
+  /**
+   * Whether the elbow is above or below the line from J2 to the wrist center
+   */
+  elbow: "up" | "down";
+  /**
+   * Wrist configuration, "F" keeps J5 positive and "NF" flips it
+   */
+  wrist: "F" | "NF";
+};
+
+export type IKSolution = {
+  /**
+   * Joint angles in degrees (J1 to J6)
+   */
+  angles: number[];
+  configuration: IKConfiguration;
+};
+
+/**
+ * A straight piece of the arm, e.g. the upper arm from the J2 axis to the J3 axis
+ */
+export type LinkSegment = {
+  /**
+   * The DH offset it follows, like "J2.a" or "J4.d", or "tool" from the flange to the TCP
+   */
+  name: string;
+  start: [number, number, number];
+  end: [number, number, number];
+};
+
+export type TQuaternion = [number, number, number, number]; // [w, x, y, z], unit length
+
+export type SingularityType = "wrist" | "elbow" | "shoulder";
+
+export type Singularity = {
+  type: SingularityType;
+  /**
+   * How far the arm is from the singularity, in degrees for the wrist and elbow,
+   * and in mm of wrist center distance from the J1 axis for the shoulder
+   */
+  distance: number;
+};
+
+/**
+ * How close the arm may get to each singularity before it counts as near it.
+ */
+export type SingularityLimits = Record<SingularityType, number>;
+
+export const DEFAULT_SINGULARITY_LIMITS: SingularityLimits = {
+  wrist: 5, // |J5| in degrees
+  elbow: 5, // degrees away from the arm being fully stretched or folded
+  shoulder: 20, // wrist center distance from the J1 axis in mm
+};
+
+const SINGULARITY_THRESHOLD = 1e-6;
+
+// The closed-form solution assumes the nominal theta offsets and d and a, a calibrated arm is
+// brought onto the pose from there
+const REFINE_ITERATIONS = 20;
+// Far below what the arm can resolve, and still reached right next to the wrist singularity
+const REFINE_POSITION_TOLERANCE = 1e-6; // mm
+const REFINE_ORIENTATION_TOLERANCE = 1e-6; // radians
+// Keeps the steps bounded at singularities, in mm² and radians²
+const REFINE_DAMPING = 1e-6;
+
+function normalizeDegrees(angle: number): number {
+  const wrapped = ((((angle + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 ? 180 : wrapped;
+}
+
+function toDegrees(radians: number): number {
+  return unit(radians, "rad").toNumber("deg");
+}
+
 export class Kinematics {
   private DHParameters: Record<string, TheFourDHParameters>;
   private toolFrame: number[][] = Kinematics.createHomogeneousMatrix(
@@ -49,20 +141,38 @@ export class Kinematics {
    * @returns The final transformation matrix from base to tool frame.
    */
   forwardKinematics(jointAngles: number[]): number[][] {
+    return multiply(this.chain(jointAngles), this.toolFrame); // Multiply all matrices to get the final transformation
+  }
+
+  /**
+   * Compute the transformation matrix from the base frame to the frame of the last given joint,
+   * without the tool frame.
+   * @param jointAngles Array of joint angles in degrees, starting from J1.
+   */
+  private chain(jointAngles: number[]): number[][] {
     const angles = jointAngles.map((angle) => unit(angle, "deg").value); // Convert angles to radians
-    const matrices = Object.keys(this.DHParameters)
+    return Object.keys(this.DHParameters)
       .slice(0, jointAngles.length)
-      .map((joint, index) => {
+      .reduce((matrix, joint, index) => {
         const params = this.DHParameters[joint];
-        return this.createDHMatrix(
-          params.theta(angles[index]),
-          params.alpha,
-          params.d,
-          params.a
+        return multiply(
+          matrix,
+          this.createDHMatrix(
+            params.theta(angles[index]),
+            params.alpha,
+            params.d,
+            params.a
+          )
         );
-      });
+      }, Kinematics.createHomogeneousMatrix(0, 0, 0, 0, 0, 0));
+  }
 
-    return multiply(...matrices, this.toolFrame); // Multiply all matrices to get the final transformation
+  /**
+   * The transformation from the base frame to the flange, without the tool.
+   * @param jointAngles Array of joint angles in degrees (J1 to J6).
+   */
+  flangeFrame(jointAngles: number[]): number[][] {
+    return this.chain(jointAngles);
   }
 
   /**
@@ -210,20 +320,464 @@ export class Kinematics {
     }
 
     // make sure the degrees are within the range of each joint
-    const degrees = [
-      J1AngleDeg,
-      J2AngleDeg,
-      J3AngleDeg,
-      J4AngleDeg,
-      J5AngleDeg,
-      J6AngleDeg,
-    ];
+    const degrees = this.refine(
+      [J1AngleDeg, J2AngleDeg, J3AngleDeg, J4AngleDeg, J5AngleDeg, J6AngleDeg],
+      tipOfTheTool
+    );
+    if (!degrees) {
+      throw new Error("No joint angles reach the pose");
+    }
     if (Kinematics.ensureInRange(degrees) === false) {
       throw new Error("Joint angles out of range");
     }
     return degrees;
   }
 
+  /**
+   * Compute every inverse kinematics solution for a given tool pose: reaching to the front or over
+   * the back, elbow up or down, both wrist configurations, and the ±360° equivalents of each joint
+   * that still fit its range.
+   * @param x Position along the x-axis.
+   * @param y Position along the y-axis.
+   * @param z Position along the z-axis.
+   * @param rx Rotation around the x-axis (roll) in degrees.
+   * @param ry Rotation around the y-axis (pitch) in degrees.
+   * @param rz Rotation around the z-axis (yaw) in degrees.
+   * @returns All solutions within the joint ranges, empty if the pose is unreachable.
+   */
+  inverseKinematicsSolutions(
+    x: number,
+    y: number,
+    z: number,
+    rx: number,
+    ry: number,
+    rz: number
+  ): IKSolution[] {
+    const angles = [rx, ry, rz].map((angle) => unit(angle, "deg").value);
+    const tipOfTheTool = Kinematics.createHomogeneousMatrix(
+      x,
+      y,
+      z,
+      angles[0],
+      angles[1],
+      angles[2]
+    );
+    const R_0_6 = multiply(tipOfTheTool, inv(this.toolFrame));
+    const offset = Kinematics.createHomogeneousMatrix(
+      0,
+      0,
+      -this.DHParameters.J6.d,
+      0,
+      0,
+      0
+    );
+    const centerOfSphericalWrist = multiply(R_0_6, offset);
+    const wristCenterX = centerOfSphericalWrist[0][3];
+    const wristCenterY = centerOfSphericalWrist[1][3];
+    const wristCenterZ = centerOfSphericalWrist[2][3];
+
+    const J1Front = Kinematics.getJ1Angle(wristCenterX, wristCenterY);
+    const shoulders = [
+      { shoulder: "front" as const, J1: J1Front },
+      { shoulder: "back" as const, J1: normalizeDegrees(J1Front + 180) },
+    ];
+
+    const solutions: IKSolution[] = [];
+    for (const { shoulder, J1 } of shoulders) {
+      const arms = this.solveArm(J1, wristCenterX, wristCenterY, wristCenterZ);
+      for (const { elbow, J2, J3 } of arms) {
+        const R_0_3 = this.chain([J1, J2, J3]);
+        const R_3_6 = multiply(transpose(R_0_3), R_0_6);
+        for (const { wrist, J4, J5, J6 } of Kinematics.solveWrist(R_3_6)) {
+          const refined = this.refine([J1, J2, J3, J4, J5, J6], tipOfTheTool);
+          if (!refined) continue;
+          const variants = Kinematics.wrapIntoRange(
+            refined.map(normalizeDegrees)
+          );
+          for (const variant of variants) {
+            solutions.push({
+              angles: variant,
+              configuration: { shoulder, elbow, wrist },
+            });
+          }
+        }
+      }
+    }
+    return solutions;
+  }
+
+  /**
+   * Compute the inverse kinematics solution closest to the given joint angles, so a path that
+   * starts on one branch stays on it.
+   * @param x Position along the x-axis.
+   * @param y Position along the y-axis.
+   * @param z Position along the z-axis.
+   * @param rx Rotation around the x-axis (roll) in degrees.
+   * @param ry Rotation around the y-axis (pitch) in degrees.
+   * @param rz Rotation around the z-axis (yaw) in degrees.
+   * @param currentAngles The joint angles in degrees to stay close to.
+   * @returns An array of joint angles in degrees.
+   * @throws If the pose has no solution within the joint ranges.
+   */
+  inverseKinematicsNearest(
+    x: number,
+    y: number,
+    z: number,
+    rx: number,
+    ry: number,
+    rz: number,
+    currentAngles: number[]
+  ): number[] {
+    const solutions = this.inverseKinematicsSolutions(x, y, z, rx, ry, rz);
+    const nearest = Kinematics.nearestSolution(solutions, currentAngles);
+    if (!nearest) {
+      throw new Error(
+        `No inverse kinematics solution for pose [${[x, y, z, rx, ry, rz]
+          .map((value) => value.toFixed(3))
+          .join(", ")}]`
+      );
+    }
+    return nearest.angles;
+  }
+
+  /**
+   * Pick the solution with the smallest joint space distance to the given joint angles.
+   * @param solutions Candidate solutions, e.g. from inverseKinematicsSolutions.
+   * @param currentAngles Joint angles in degrees (J1 to J6).
+   * @returns The nearest solution, or undefined if there are none.
+   */
+  static nearestSolution(
+    solutions: IKSolution[],
+    currentAngles: number[]
+  ): IKSolution | undefined {
+    let nearest: IKSolution | undefined;
+    let nearestDistance = Infinity;
+    for (const solution of solutions) {
+      const distance = solution.angles.reduce(
+        (sum, angle, index) => sum + (angle - currentAngles[index]) ** 2,
+        0
+      );
+      if (distance < nearestDistance) {
+        nearest = solution;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Find which inverse kinematics branch a set of joint angles is on.
+   * @param jointAngles Joint angles in degrees (J1 to J6).
+   * @returns The configuration, or undefined if the angles are outside the joint ranges.
+   */
+  configurationOf(jointAngles: number[]): IKConfiguration | undefined {
+    const { x, y, z, rx, ry, rz } = Kinematics.extractHomogeneousMatrix(
+      this.forwardKinematics(jointAngles)
+    );
+    return Kinematics.nearestSolution(
+      this.inverseKinematicsSolutions(x, y, z, rx, ry, rz),
+      jointAngles
+    )?.configuration;
+  }
+
+  /**
+   * Brings a closed-form solution exactly onto the pose with damped Newton steps on the
+   * Jacobian, for DH parameters the closed form does not model: theta offsets other than the
+   * nominal ones, and d and a the arm was not designed with.
+   * @param jointAngles The closed-form solution in degrees (J1 to J6).
+   * @param target The base to tool transformation to reach.
+   * @returns The refined joint angles, or undefined if they do not converge on the pose.
+   */
+  private refine(
+    jointAngles: number[],
+    target: number[][]
+  ): number[] | undefined {
+    let angles = jointAngles;
+    for (let iteration = 0; ; iteration++) {
+      const frame = this.forwardKinematics(angles);
+      const positionError = [0, 1, 2].map(
+        (row) => target[row][3] - frame[row][3]
+      );
+      // Half the sum of the cross products of the axes, small angle rotation to the target
+      const orientationError = [0, 1, 2]
+        .map(
+          (column) =>
+            cross(
+              [0, 1, 2].map((row) => frame[row][column]),
+              [0, 1, 2].map((row) => target[row][column])
+            ) as number[]
+        )
+        .reduce(
+          (sum, axis) => sum.map((value, i) => value + axis[i] / 2),
+          [0, 0, 0]
+        );
+      if (
+        Math.hypot(...positionError) < REFINE_POSITION_TOLERANCE &&
+        Math.hypot(...orientationError) < REFINE_ORIENTATION_TOLERANCE
+      ) {
+        return angles;
+      }
+      if (iteration === REFINE_ITERATIONS) return undefined;
+      const jacobian = this.jacobian(angles);
+      const damped = (
+        multiply(jacobian, transpose(jacobian)) as number[][]
+      ).map((row, i) =>
+        row.map((value, j) => (i === j ? value + REFINE_DAMPING : value))
+      );
+      const step = multiply(
+        transpose(jacobian),
+        (
+          lusolve(damped, [...positionError, ...orientationError]) as number[][]
+        ).map(([value]) => value)
+      ) as number[];
+      angles = angles.map((angle, index) => angle + toDegrees(step[index]));
+    }
+  }
+
+  /**
+   * Solve J2 and J3 for both elbow configurations, given J1 and the wrist center.
+   * @returns Up to two solutions in degrees, none if the wrist center is out of reach.
+   */
+  private solveArm(
+    J1AngleDeg: number,
+    wristCenterX: number,
+    wristCenterY: number,
+    wristCenterZ: number
+  ): { elbow: IKConfiguration["elbow"]; J2: number; J3: number }[] {
+    const J1AngleRad = unit(J1AngleDeg, "deg").value;
+    // rotate J1 to zero degree
+    const wristCenterXRotated =
+      wristCenterX * Math.cos(J1AngleRad) + wristCenterY * Math.sin(J1AngleRad);
+
+    const L1 = wristCenterXRotated - this.DHParameters.J1.a;
+    const L4 = wristCenterZ - this.DHParameters.J1.d;
+    const L2 = Math.sqrt(L1 ** 2 + L4 ** 2);
+    const L3 = Math.sqrt(
+      this.DHParameters.J3.a ** 2 + this.DHParameters.J4.d ** 2
+    );
+    const cosThetaC =
+      (this.DHParameters.J2.a ** 2 + L2 ** 2 - L3 ** 2) /
+      (2 * this.DHParameters.J2.a * L2);
+    const cosThetaD =
+      (L3 ** 2 + this.DHParameters.J2.a ** 2 - L2 ** 2) /
+      (2 * L3 * this.DHParameters.J2.a);
+    if (L2 === 0 || Math.abs(cosThetaC) > 1 || Math.abs(cosThetaD) > 1) {
+      return [];
+    }
+
+    const thetaB = toDegrees(Math.atan2(L1, L4));
+    const thetaC = toDegrees(Math.acos(cosThetaC));
+    const thetaD = toDegrees(Math.acos(cosThetaD));
+    const thetaE = toDegrees(
+      Math.atan2(this.DHParameters.J3.a, this.DHParameters.J4.d)
+    );
+
+    // Leaning the upper arm back from the line to the wrist center lifts the elbow when reaching
+    // forward, and lowers it when reaching behind J2
+    const leanBack = {
+      J2: normalizeDegrees(thetaB - thetaC),
+      J3: normalizeDegrees(90 - thetaD - thetaE),
+    };
+    const leanForward = {
+      J2: normalizeDegrees(thetaB + thetaC),
+      J3: normalizeDegrees(90 + thetaD - thetaE),
+    };
+    const [up, down] =
+      L1 >= 0 ? [leanBack, leanForward] : [leanForward, leanBack];
+    return [
+      { elbow: "up", ...up },
+      { elbow: "down", ...down },
+    ];
+  }
+
+  /**
+   * Solve J4, J5 and J6 for both wrist configurations from the spherical wrist orientation.
+   * At the wrist singularity (J5 = 0) only J4 + J6 is defined, J4 is then kept at zero.
+   * @param R_3_6 The rotation from frame 3 to frame 6.
+   */
+  private static solveWrist(
+    R_3_6: number[][]
+  ): { wrist: IKConfiguration["wrist"]; J4: number; J5: number; J6: number }[] {
+    const r11 = R_3_6[0][0];
+    const r21 = R_3_6[1][0];
+    const r13 = R_3_6[0][2];
+    const r23 = R_3_6[1][2];
+    const r31 = R_3_6[2][0];
+    const r32 = R_3_6[2][1];
+    const r33 = R_3_6[2][2];
+    const sinJ5 = Math.sqrt(Math.max(0, 1 - r33 ** 2));
+
+    if (sinJ5 < SINGULARITY_THRESHOLD && r33 > 0) {
+      return [
+        { wrist: "F", J4: 0, J5: 0, J6: toDegrees(Math.atan2(r21, r11)) },
+      ];
+    }
+    return [
+      {
+        wrist: "F",
+        J4: toDegrees(Math.atan2(r23, r13)),
+        J5: toDegrees(Math.atan2(sinJ5, r33)),
+        J6: toDegrees(Math.atan2(r32, -r31)),
+      },
+      {
+        wrist: "NF",
+        J4: toDegrees(Math.atan2(-r23, -r13)),
+        J5: toDegrees(Math.atan2(-sinJ5, r33)),
+        J6: toDegrees(Math.atan2(-r32, r31)),
+      },
+    ];
+  }
+
+  /**
+   * Expand joint angles into every combination of ±360° equivalents that fits the joint ranges.
+   * @param jointAngles Joint angles in degrees (J1 to J6).
+   * @returns The equivalent joint angles within range, empty if a joint cannot be placed in range.
+   */
+  private static wrapIntoRange(jointAngles: number[]): number[][] {
+    return jointAngles.reduce<number[][]>(
+      (combinations, angle, index) => {
+        const [min, max] = JOINT_CONFIGS[`J${index + 1}`].RANGE;
+        const candidates = [-720, -360, 0, 360, 720]
+          .map((turn) => angle + turn)
+          .filter((candidate) => candidate >= min && candidate <= max);
+        return combinations.flatMap((combination) =>
+          candidates.map((candidate) => [...combination, candidate])
+        );
+      },
+      [[]]
+    );
+  }
+
+  /**
+   * Compute the geometric Jacobian of the tool center point.
+   * @param jointAngles Array of joint angles in degrees (J1 to J6).
+   * @returns A 6x6 matrix, the rows map joint velocities in radians per second to the linear
+   * velocity (vx, vy, vz) and the angular velocity (wx, wy, wz) of the tool in the base frame.
+   */
+  jacobian(jointAngles: number[]): number[][] {
+    const tool = this.forwardKinematics(jointAngles);
+    const toolOrigin = [tool[0][3], tool[1][3], tool[2][3]];
+    const columns = jointAngles.map((_, index) => {
+      // Joint i rotates about the z-axis of frame i - 1
+      const frame = this.chain(jointAngles.slice(0, index));
+      const axis = [frame[0][2], frame[1][2], frame[2][2]];
+      const origin = [frame[0][3], frame[1][3], frame[2][3]];
+      const lever = toolOrigin.map((value, i) => value - origin[i]);
+      return [...(cross(axis, lever) as number[]), ...axis];
+    });
+    return transpose(columns);
+  }
+
+  /**
+   * Yoshikawa's manipulability measure, sqrt(det(J * J^T)). It drops to zero at a singularity.
+   * @param jointAngles Array of joint angles in degrees (J1 to J6).
+   */
+  manipulability(jointAngles: number[]): number {
+    const jacobian = this.jacobian(jointAngles);
+    return Math.sqrt(
+      Math.max(0, det(multiply(jacobian, transpose(jacobian))) as number)
+    );
+  }
+
+  /**
+   * Find the singularities the arm is near for the given joint angles.
+   * - wrist: J4 and J6 line up when J5 is zero
+   * - elbow: the arm is fully stretched or folded, so the wrist center cannot move along it
+   * - shoulder: the wrist center is on the J1 axis, so J1 cannot be determined
+   * @param jointAngles Array of joint angles in degrees (J1 to J6).
+   * @param limits How close to each singularity counts as near it.
+   * @returns The singularities within the limits, empty if there are none.
+   */
+  singularities(
+    jointAngles: number[],
+    limits: SingularityLimits = DEFAULT_SINGULARITY_LIMITS
+  ): Singularity[] {
+    const found: Singularity[] = [];
+
+    const wristDistance = Math.abs(normalizeDegrees(jointAngles[4]));
+    const wrist = Math.min(wristDistance, 180 - wristDistance);
+    if (wrist < limits.wrist) {
+      found.push({ type: "wrist", distance: wrist });
+    }
+
+    const thetaE = toDegrees(
+      Math.atan2(this.DHParameters.J3.a, this.DHParameters.J4.d)
+    );
+    // The inner angle at the elbow is 90 - J3 - thetaE, stretched at 180 and folded at 0
+    const innerAngle = Math.abs(normalizeDegrees(90 - jointAngles[2] - thetaE));
+    const elbow = Math.min(innerAngle, 180 - innerAngle);
+    if (elbow < limits.elbow) {
+      found.push({ type: "elbow", distance: elbow });
+    }
+
+    const [wristX, wristY] = this.wristCenter(jointAngles);
+    const shoulder = Math.hypot(wristX, wristY);
+    if (shoulder < limits.shoulder) {
+      found.push({ type: "shoulder", distance: shoulder });
+    }
+
+    return found;
+  }
+
+  /**
+   * The straight pieces of the arm for the given joint angles: along each joint's DH d offset
+   * (on the previous joint's axis) and then its a offset, and from the flange to the tool center
+   * point. Pieces of zero length are left out.
+   * @param jointAngles Array of joint angles in degrees (J1 to J6).
+   * @returns The segments from the base to the tool, in the base frame.
+   */
+  linkSegments(jointAngles: number[]): LinkSegment[] {
+    const segments: LinkSegment[] = [];
+    const originOf = (frame: number[][]): [number, number, number] => [
+      frame[0][3],
+      frame[1][3],
+      frame[2][3],
+    ];
+    let frame = Kinematics.createHomogeneousMatrix(0, 0, 0, 0, 0, 0);
+    Object.keys(this.DHParameters).forEach((joint, index) => {
+      const params = this.DHParameters[joint];
+      const start = originOf(frame);
+      const afterD = start.map(
+        (value, i) => value + params.d * frame[i][2]
+      ) as [number, number, number];
+      frame = multiply(
+        frame,
+        this.createDHMatrix(
+          params.theta(unit(jointAngles[index], "deg").value),
+          params.alpha,
+          params.d,
+          params.a
+        )
+      );
+      if (params.d !== 0) {
+        segments.push({ name: `${joint}.d`, start, end: afterD });
+      }
+      if (params.a !== 0) {
+        segments.push({
+          name: `${joint}.a`,
+          start: afterD,
+          end: originOf(frame),
+        });
+      }
+    });
+    const flange = originOf(frame);
+    const tcp = originOf(multiply(frame, this.toolFrame));
+    if (tcp.some((value, i) => value !== flange[i])) {
+      segments.push({ name: "tool", start: flange, end: tcp });
+    }
+    return segments;
+  }
+
+  /**
+   * Position of the spherical wrist's center, where the J4, J5 and J6 axes meet.
+   * @param jointAngles Array of joint angles in degrees (J1 to J6).
+   * @returns [x, y, z] in the base frame.
+   */
+  wristCenter(jointAngles: number[]): [number, number, number] {
+    const frame = this.chain(jointAngles.slice(0, 5));
+    return [frame[0][3], frame[1][3], frame[2][3]];
+  }
+
   private static ensureInRange(jointAngles: number[]): boolean {
     return jointAngles.every((angle, index) => {
       const name = `J${index + 1}`;
@@ -349,6 +903,121 @@ export class Kinematics {
     };
   }
 
+  /**
+   * Convert the rotation part of a transformation matrix to a unit quaternion.
+   * @param matrix A 3x3 rotation or 4x4 homogeneous transformation matrix.
+   * @returns The quaternion [w, x, y, z], with w >= 0.
+   */
+  public static matrixToQuaternion(matrix: number[][]): TQuaternion {
+    const [[r00, r01, r02], [r10, r11, r12], [r20, r21, r22]] = matrix;
+    const trace = r00 + r11 + r22;
+    let quaternion: TQuaternion;
+    // Divide by the largest of w, x, y, z to stay accurate
+    if (trace > 0) {
+      const s = Math.sqrt(trace + 1) * 2; // s = 4w
+      quaternion = [s / 4, (r21 - r12) / s, (r02 - r20) / s, (r10 - r01) / s];
+    } else if (r00 > r11 && r00 > r22) {
+      const s = Math.sqrt(1 + r00 - r11 - r22) * 2; // s = 4x
+      quaternion = [(r21 - r12) / s, s / 4, (r01 + r10) / s, (r02 + r20) / s];
+    } else if (r11 > r22) {
+      const s = Math.sqrt(1 + r11 - r00 - r22) * 2; // s = 4y
+      quaternion = [(r02 - r20) / s, (r01 + r10) / s, s / 4, (r12 + r21) / s];
+    } else {
+      const s = Math.sqrt(1 + r22 - r00 - r11) * 2; // s = 4z
+      quaternion = [(r10 - r01) / s, (r02 + r20) / s, (r12 + r21) / s, s / 4];
+    }
+    const length = Math.hypot(...quaternion);
+    const sign = quaternion[0] < 0 ? -1 : 1;
+    return quaternion.map((value) => (value / length) * sign) as TQuaternion;
+  }
+
+  /**
+   * Convert a unit quaternion to a homogeneous transformation matrix without translation.
+   * @param quaternion The quaternion [w, x, y, z].
+   * @returns A 4x4 transformation matrix.
+   */
+  public static quaternionToMatrix([w, x, y, z]: TQuaternion): number[][] {
+    return [
+      [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y), 0],
+      [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x), 0],
+      [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y), 0],
+      [0, 0, 0, 1],
+    ];
+  }
+
+  /**
+   * Convert the orientation of a pose to a unit quaternion.
+   * @param rx Rotation around the x-axis (roll) in degrees.
+   * @param ry Rotation around the y-axis (pitch) in degrees.
+   * @param rz Rotation around the z-axis (yaw) in degrees.
+   * @returns The quaternion [w, x, y, z].
+   */
+  public static eulerToQuaternion(
+    rx: number,
+    ry: number,
+    rz: number
+  ): TQuaternion {
+    const [x, y, z] = [rx, ry, rz].map((angle) => unit(angle, "deg").value);
+    return Kinematics.matrixToQuaternion(
+      Kinematics.createHomogeneousMatrix(0, 0, 0, x, y, z)
+    );
+  }
+
+  /**
+   * Convert a unit quaternion to the orientation of a pose, in the same convention as
+   * createHomogeneousMatrix. When ry is ±90 degrees only rz - rx (or rz + rx) is defined,
+   * rx is then kept at zero.
+   * @param quaternion The quaternion [w, x, y, z].
+   * @returns The orientation (rx, ry, rz) in degrees.
+   */
+  public static quaternionToEuler(quaternion: TQuaternion) {
+    const matrix = Kinematics.quaternionToMatrix(quaternion);
+    const cosRy = Math.hypot(matrix[0][0], matrix[1][0]);
+    const ry = Math.atan2(-matrix[2][0], cosRy);
+    let rx: number;
+    let rz: number;
+    if (cosRy < SINGULARITY_THRESHOLD) {
+      rx = 0;
+      rz = Math.atan2(-matrix[0][1], matrix[1][1]);
+    } else {
+      rx = Math.atan2(matrix[2][1], matrix[2][2]);
+      rz = Math.atan2(matrix[1][0], matrix[0][0]);
+    }
+    return { rx: toDegrees(rx), ry: toDegrees(ry), rz: toDegrees(rz) };
+  }
+
+  /**
+   * Spherical linear interpolation between two orientations, turning at a constant rate about
+   * a fixed axis the short way round.
+   * @param from The quaternion at t = 0.
+   * @param to The quaternion at t = 1.
+   * @param t Fraction of the way from one to the other (0.0 to 1.0).
+   * @returns The interpolated unit quaternion.
+   */
+  public static slerp(from: TQuaternion, to: TQuaternion, t: number) {
+    let cosHalfAngle = from.reduce((sum, value, i) => sum + value * to[i], 0);
+    // q and -q are the same orientation, pick the one that is closer
+    const target = cosHalfAngle < 0 ? to.map((value) => -value) : to;
+    cosHalfAngle = Math.abs(cosHalfAngle);
+
+    let weightFrom: number;
+    let weightTo: number;
+    if (cosHalfAngle > 0.9995) {
+      // Nearly the same orientation, a linear blend is accurate and avoids dividing by ~0
+      weightFrom = 1 - t;
+      weightTo = t;
+    } else {
+      const halfAngle = Math.acos(cosHalfAngle);
+      weightFrom = Math.sin((1 - t) * halfAngle) / Math.sin(halfAngle);
+      weightTo = Math.sin(t * halfAngle) / Math.sin(halfAngle);
+    }
+    const blended = from.map(
+      (value, i) => value * weightFrom + target[i] * weightTo
+    );
+    const length = Math.hypot(...blended);
+    return blended.map((value) => value / length) as TQuaternion;
+  }
+
   static getJ1Angle(x: number, y: number) {
     if (x === 0) {
       return -90; // Equivalent to RADIANS(-90) if the result is in degrees
@@ -365,45 +1034,79 @@ export class Kinematics {
   }
 }
 
-const DH_Parameters = {
-  J1: {
-    theta: (angleInRadians: number) => angleInRadians,
-    alpha: unit(-90, "deg").value,
-    d: 184,
-    a: 65,
-  },
-  J2: {
-    theta: (angleInRadians: number) => angleInRadians - unit(90, "deg").value,
-    alpha: unit(0, "deg").value,
-    d: 0,
-    a: 300,
-  },
-  J3: {
-    theta: (angleInRadians: number) => angleInRadians + unit(180, "deg").value,
-    alpha: unit(90, "deg").value,
-    d: 0,
-    a: 0,
-  },
-  J4: {
-    theta: (angleInRadians: number) => angleInRadians,
-    alpha: unit(-90, "deg").value,
-    d: 227.328,
-    a: 0,
-  },
-  J5: {
-    theta: (angleInRadians: number) => angleInRadians,
-    alpha: unit(90, "deg").value,
-    d: 0,
-    a: 0,
-  },
-  J6: {
-    theta: (angleInRadians: number) => angleInRadians,
-    alpha: unit(0, "deg").value,
-    d: 43,
-    a: 0,
-  },
+/**
+ * One joint's DH parameters as written in a robot description, lengths in mm and angles in degrees
+ */
+export type DHDescription = {
+  /**
+   * Added to the joint angle to get the DH theta
+   */
+  thetaOffset: number;
+  d: number;
+  a: number;
+  alpha: number;
+};
+
+/**
+ * The DH parameters of the arm the code was written for
+ */
+export const DEFAULT_DH_PARAMETERS: Record<string, DHDescription> = {
+  J1: { thetaOffset: 0, d: 184, a: 65, alpha: -90 },
+  J2: { thetaOffset: -90, d: 0, a: 300, alpha: 0 },
+  J3: { thetaOffset: 180, d: 0, a: 0, alpha: 90 },
+  J4: { thetaOffset: 0, d: 227.328, a: 0, alpha: -90 },
+  J5: { thetaOffset: 0, d: 0, a: 0, alpha: 90 },
+  J6: { thetaOffset: 0, d: 43, a: 0, alpha: 0 },
 };
 
-export function createKinematics() {
-  return new Kinematics(DH_Parameters);
+function toDHParameters(
+  description: Record<string, DHDescription>
+): Record<string, TheFourDHParameters> {
+  return Object.fromEntries(
+    Object.entries(description).map(([joint, { thetaOffset, d, a, alpha }]) => {
+      const offset = unit(thetaOffset, "deg").value;
+      return [
+        joint,
+        {
+          theta: (angleInRadians: number) => angleInRadians + offset,
+          alpha: unit(alpha, "deg").value,
+          d,
+          a,
+        },
+      ];
+    })
+  );
+}
+
+let DH_Description = DEFAULT_DH_PARAMETERS;
+let DH_Parameters = toDHParameters(DH_Description);
+
+/**
+ * Replaces the DH parameters kinematics are created with from now on, e.g. from a robot
+ * description. Kinematics created before keep theirs.
+ */
+export function setDHParameters(description: Record<string, DHDescription>) {
+  DH_Description = description;
+  DH_Parameters = toDHParameters(description);
+}
+
+/**
+ * The DH parameters kinematics are created with, as written in a robot description.
+ */
+export function getDHParameters(): Record<string, DHDescription> {
+  return Object.fromEntries(
+    Object.entries(DH_Description).map(([joint, params]) => [
+      joint,
+      { ...params },
+    ])
+  );
+}
+
+/**
+ * @param description DH parameters to use instead of the current ones, e.g. from a URDF.
+ */
+export function createKinematics(description?: Record<string, DHDescription>) {
+  return new Kinematics(
+    description ? toDHParameters(description) : DH_Parameters
+  );
 }
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MotionQueue, MotionSegmentError } from "./motion.ts";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import type Joint from "./Joint.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+/**
+ * Setpoints turning J1 from one angle to another in equal steps, the other joints stay at 0.
+ */
+function rampJ1(from: number, to: number, steps: number): number[][] {
+  return Array.from({ length: steps + 1 }, (_, i) => [
+    from + ((to - from) * i) / steps,
+    0,
+    0,
+    0,
+    0,
+    0,
+  ]);
+}
+
+describe("MotionQueue on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let joints: Joint[];
+  // Where J1 physically is, from where homing left it
+  let j1: () => number;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    const robot = new Robot(sim as unknown as FirmataType);
+    await runFor(robot.home(), 120_000);
+    joints = [robot.J1, robot.J2, robot.J3, robot.J4, robot.J5, robot.J6];
+    const zero = sim.physicalDegrees(0);
+    j1 = () => sim.physicalDegrees(0) - zero;
+  });
+
+  afterEach(() => {
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  it("should resolve a segment once the joints have arrived", async () => {
+    const queue = new MotionQueue(joints);
+    // Faster than J1 can turn, so the joint falls behind the setpoints
+    const startedAt = Date.now();
+    await runFor(
+      queue.push({ setpoints: rampJ1(0, 30, 50), periodMs: 20 }),
+      30_000
+    );
+
+    expect(Date.now() - startedAt).toBeGreaterThan(1_500);
+    expect(j1()).toBeCloseTo(30, 1);
+    expect(joints[0].Degrees).toBeCloseTo(30, 1);
+    expect(queue.Length).toBe(0);
+
+    // Queued segments run one after another
+    const there = queue.push({ setpoints: rampJ1(30, 10, 20), periodMs: 20 });
+    const back = queue.push({ setpoints: [[0, 0, 0, 0, 0, 0]], periodMs: 20 });
+    expect(queue.Length).toBe(2);
+    await runFor(there, 30_000);
+    expect(j1()).toBeCloseTo(10, 1);
+    await runFor(back, 30_000);
+    expect(j1()).toBeCloseTo(0, 1);
+  });
+
+  it("should hold back setpoints the board has not acknowledged", async () => {
+    // A slow link, positions take 100 ms to come back
+    const report = sim.accelStepperReportPosition.bind(sim);
+    let answered = 0;
+    sim.accelStepperReportPosition = (deviceNum, callback) =>
+      setTimeout(
+        () =>
+          report(deviceNum, (position) => {
+            if (deviceNum === 0) answered++;
+            callback(position);
+          }),
+        100
+      );
+    const sendTo = sim.accelStepperTo.bind(sim);
+    let sent = 0;
+    let mostAhead = 0;
+    sim.accelStepperTo = (deviceNum, position, callback) => {
+      if (deviceNum === 0) {
+        sent++;
+        mostAhead = Math.max(mostAhead, sent - answered);
+      }
+      sendTo(deviceNum, position, callback);
+    };
+
+    const queue = new MotionQueue(joints, { lookahead: 2 });
+    const move = queue.push({ setpoints: rampJ1(0, 10, 50), periodMs: 20 });
+    await vi.advanceTimersByTimeAsync(1_000);
+    // At 20 ms a setpoint, but no more than 2 every 100 ms
+    expect(sent).toBeLessThanOrEqual(22);
+    expect(mostAhead).toBeLessThanOrEqual(2);
+
+    await runFor(move, 30_000);
+    expect(j1()).toBeCloseTo(10, 1);
+  });
+
+  it("should reject a failed segment and the ones queued after it", async () => {
+    const queue = new MotionQueue(joints);
+    // J1 ends at 115 degrees
+    const failing = queue.push({
+      setpoints: rampJ1(100, 130, 30),
+      periodMs: 20,
+    });
+    const next = queue.push({ setpoints: rampJ1(0, 10, 10), periodMs: 20 });
+    failing.catch(() => {});
+    next.catch(() => {});
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    const error = await failing.catch((error) => error);
+    expect(error).toBeInstanceOf(MotionSegmentError);
+    expect(error.message).toMatch(
+      /^Setpoint 17 of 31 failed: .*out of range \[-170, 115\]/
+    );
+    expect(error.setpoint).toBe(16);
+    await expect(next).rejects.toThrow(/An earlier segment failed/);
+
+    // The arm was stopped short of the failing setpoint
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(j1()).toBeLessThan(115);
+    expect(queue.Length).toBe(0);
+  });
+
+  it("should drop every segment on clear", async () => {
+    const queue = new MotionQueue(joints);
+    const first = queue.push({ setpoints: rampJ1(0, 30, 50), periodMs: 20 });
+    const second = queue.push({ setpoints: rampJ1(30, 0, 50), periodMs: 20 });
+    await vi.advanceTimersByTimeAsync(500);
+
+    queue.clear(new Error("Stop right there."));
+    await expect(first).rejects.toThrow("Stop right there.");
+    await expect(second).rejects.toThrow("Stop right there.");
+    expect(queue.Length).toBe(0);
+
+    // And carries on with what comes next
+    await runFor(
+      queue.push({ setpoints: [[5, 0, 0, 0, 0, 0]], periodMs: 20 }),
+      30_000
+    );
+    expect(j1()).toBeCloseTo(5, 1);
+  });
+});
@@ -0,0 +1,288 @@
+import pino from "pino";
+import type Joint from "./Joint.ts";
+import type JointGroup from "./JointGroup.ts";
+
+/**
+ * A stretch of motion for the queue to play, e.g. one move.
+ */
+export type MotionSegment = {
+  /**
+   * Joint angles in degrees (J1 to J6) to pass through one after another, the last one is
+   * where the segment ends
+   */
+  setpoints: number[][];
+  /**
+   * Time between setpoints in milliseconds
+   */
+  periodMs: number;
+  /**
+   * Speed of each joint in degrees per second, MAX_SPEED if left out. A group move keeps
+   * every joint below its speed.
+   */
+  speeds?: number[];
+  /**
+   * Acceleration of each joint in degrees per second squared, MAX_ACCELERATION if left out.
+   * Group moves run at constant speeds and leave it out.
+   */
+  accelerations?: number[];
+};
+
+export type MotionQueueOptions = {
+  /**
+   * How many setpoints may be sent before the board has acknowledged them, sending waits
+   * while this many are unanswered
+   */
+  lookahead?: number;
+  /**
+   * Moves the joints together through this group, instead of one by one
+   */
+  group?: JointGroup;
+};
+
+/**
+ * A segment that failed part way, the arm is stopped. The cause is what failed, e.g. a
+ * StepLossError.
+ */
+export class MotionSegmentError extends Error {
+  constructor(
+    cause: Error,
+    public readonly setpoint: number,
+    public readonly setpoints: number
+  ) {
+    super(`Setpoint ${setpoint + 1} of ${setpoints} failed: ${cause.message}`, {
+      cause,
+    });
+    this.name = "MotionSegmentError";
+  }
+}
+
+type QueuedSegment = {
+  segment: MotionSegment;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Plays motion segments on the joints, one after another.
+ *
+ * A segment's setpoints are sent one per period, and every one is acknowledged by the board
+ * reporting where the joints are, checked against the encoders of joints that have one. No
+ * more than lookahead setpoints are ever unanswered, a board that falls behind slows the
+ * segment down instead of piling up commands. The last setpoint is sent as a move the joints
+ * (or their group) report finishing, and a segment only resolves once all of them have
+ * arrived where their encoders agree. Anything that fails, e.g. a StepLossError, rejects the
+ * segment, stops the arm and rejects the segments queued after it.
+ */
+export class MotionQueue {
+  private queued: QueuedSegment[] = [];
+  private running = false;
+  // Changes on clear(), so a segment still running knows it was dropped
+  private generation = 0;
+  private paused = false;
+  // Counts pauses, a final move that ended during one was stopped short
+  private pauses = 0;
+  private lookahead: number;
+  private group?: JointGroup;
+  private logger: pino.Logger;
+
+  /**
+   * @param joints - The joints to drive, J1 to J6.
+   * @param options - How far sending may run ahead of the board, and the group to move the
+   * joints through.
+   */
+  constructor(private joints: Joint[], options: MotionQueueOptions = {}) {
+    this.lookahead = options.lookahead ?? 5;
+    this.group = options.group;
+    if (!Number.isInteger(this.lookahead) || this.lookahead < 1) {
+      throw new Error(
+        `Lookahead must be a whole number of 1 or more, got ${this.lookahead}.`
+      );
+    }
+    this.logger = pino({
+      name: "MotionQueue",
+      level: "info",
+      base: { name: "MotionQueue" },
+      timestamp: pino.stdTimeFunctions.isoTime,
+    });
+  }
+
+  /**
+   * How many segments are waiting or running.
+   */
+  get Length(): number {
+    return this.queued.length;
+  }
+
+  /**
+   * Queues a segment behind the ones already queued.
+   * @returns Resolves once every joint has reported arriving at the last setpoint, rejects
+   * if the segment failed, or was dropped by clear().
+   */
+  public push(segment: MotionSegment): Promise<void> {
+    if (segment.setpoints.length === 0) {
+      return Promise.reject(new Error("A segment needs at least 1 setpoint."));
+    }
+    const wrongSize = segment.setpoints.find(
+      (setpoint) => setpoint.length !== this.joints.length
+    );
+    if (wrongSize) {
+      return Promise.reject(
+        new Error(
+          `Expected ${this.joints.length} joint angles per setpoint, got ${wrongSize.length}.`
+        )
+      );
+    }
+    return new Promise((resolve, reject) => {
+      this.queued.push({ segment, resolve, reject });
+      if (!this.running) {
+        this.run();
+      }
+    });
+  }
+
+  /**
+   * Stops the joints and holds the segment running until resume().
+   */
+  public async pause() {
+    this.paused = true;
+    this.pauses++;
+    await Promise.all(this.joints.map((joint) => joint.stop()));
+  }
+
+  public resume() {
+    this.paused = false;
+  }
+
+  /**
+   * Drops every segment, running or queued, rejecting them with the error. Stopping the
+   * joints is up to the caller.
+   */
+  public clear(error: Error) {
+    this.generation++;
+    this.paused = false;
+    const dropped = this.queued;
+    this.queued = [];
+    dropped.forEach(({ reject }) => reject(error));
+  }
+
+  private async run() {
+    this.running = true;
+    const generation = this.generation;
+    while (this.queued.length > 0 && generation === this.generation) {
+      const next = this.queued[0];
+      try {
+        await this.execute(next.segment, generation);
+        if (generation !== this.generation) break;
+        this.queued.shift();
+        next.resolve();
+      } catch (error) {
+        if (generation !== this.generation) break;
+        this.fail(error);
+      }
+    }
+    this.running = false;
+    // Pushed while a cleared segment was still winding down
+    if (this.queued.length > 0) {
+      this.run();
+    }
+  }
+
+  private fail(error: Error) {
+    this.logger.error(`Segment failed: ${error.message}`);
+    const [failed, ...rest] = this.queued;
+    this.queued = [];
+    failed.reject(error);
+    rest.forEach(({ reject }) =>
+      reject(new Error(`An earlier segment failed: ${error.message}`))
+    );
+    Promise.all(this.joints.map((joint) => joint.stop())).catch((error) =>
+      this.logger.error(`Stopping after the failure failed: ${error.message}`)
+    );
+  }
+
+  private async execute(segment: MotionSegment, generation: number) {
+    const { setpoints, periodMs } = segment;
+    const last = setpoints.length - 1;
+    let unanswered = 0;
+    let failure: MotionSegmentError | undefined;
+    const failAt = (index: number) => (error: Error) => {
+      failure ??= new MotionSegmentError(error, index, setpoints.length);
+    };
+    // Waits until the next setpoint may go, throws once the segment is dropped or failed
+    const nextSlot = async () => {
+      do {
+        await wait(periodMs);
+        if (generation !== this.generation) throw new Error("Dropped.");
+        if (failure) throw failure;
+      } while (this.paused || unanswered >= this.lookahead);
+    };
+
+    this.applyLimits(segment);
+    try {
+      for (let index = 0; index < last; index++) {
+        if (index > 0) await nextSlot();
+        try {
+          this.streamTo(setpoints[index]);
+        } catch (error) {
+          failAt(index)(error);
+          throw failure;
+        }
+        unanswered++;
+        Promise.all(this.joints.map((joint) => joint.verifyPosition())).then(
+          () => unanswered--,
+          failAt(index)
+        );
+      }
+
+      // Sent again after a pause, as stopping ends the move short of the setpoint
+      for (;;) {
+        if (last > 0) await nextSlot();
+        const pauses = this.pauses;
+        await this.moveTo(setpoints[last]).catch((error) => {
+          failAt(last)(error);
+          throw failure;
+        });
+        if (generation !== this.generation) throw new Error("Dropped.");
+        if (failure) throw failure;
+        if (!this.paused && pauses === this.pauses) break;
+        while (this.paused) {
+          await wait(periodMs);
+          if (generation !== this.generation) throw new Error("Dropped.");
+        }
+      }
+    } finally {
+      this.joints.forEach((joint) => joint.resetSpeedAndAcceleration());
+    }
+  }
+
+  private streamTo(setpoint: number[]) {
+    if (this.group) {
+      this.group.streamTo(setpoint);
+    } else {
+      this.joints.forEach((joint, j) => joint.streamTo(setpoint[j]));
+    }
+  }
+
+  private async moveTo(setpoint: number[]) {
+    if (this.group) {
+      await this.group.moveTo(setpoint);
+    } else {
+      await Promise.all(
+        this.joints.map((joint, j) => joint.rotateTo(setpoint[j]))
+      );
+    }
+    await Promise.all(this.joints.map((joint) => joint.verifyPosition()));
+  }
+
+  private applyLimits({ speeds, accelerations }: MotionSegment) {
+    this.joints.forEach((joint, index) => {
+      joint.resetSpeedAndAcceleration();
+      if (speeds) joint.setSpeed(speeds[index]);
+      if (accelerations) joint.setAcceleration(accelerations[index]);
+    });
+  }
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { createArc, createBlendedPath } from "./path.ts";
+import { type TPose } from "./robot.ts";
+
+describe("createArc", () => {
+  it("should fit the circle through three points", () => {
+    const arc = createArc([10, 0, 5], [0, 10, 5], [-10, 0, 5]);
+    expect(arc.radius).toBeCloseTo(10, 9);
+    arc.center.forEach((value, index) => {
+      expect(value).toBeCloseTo([0, 0, 5][index], 9);
+    });
+    expect(arc.sweep).toBeCloseTo(Math.PI, 9);
+    expect(arc.viaAngle).toBeCloseTo(Math.PI / 2, 9);
+  });
+
+  it("should run from the start through the via point to the end", () => {
+    const start: [number, number, number] = [300, 0, 400];
+    const via: [number, number, number] = [320, 40, 380];
+    const end: [number, number, number] = [300, 80, 390];
+    const arc = createArc(start, via, end);
+
+    arc.pointAt(0).forEach((value, index) => {
+      expect(value).toBeCloseTo(start[index], 9);
+    });
+    arc.pointAt(arc.viaAngle / arc.sweep).forEach((value, index) => {
+      expect(value).toBeCloseTo(via[index], 9);
+    });
+    arc.pointAt(1).forEach((value, index) => {
+      expect(value).toBeCloseTo(end[index], 9);
+    });
+    for (let i = 0; i <= 10; i++) {
+      const point = arc.pointAt(i / 10);
+      const distance = Math.hypot(
+        ...point.map((value, index) => value - arc.center[index])
+      );
+      expect(distance).toBeCloseTo(arc.radius, 9);
+    }
+  });
+
+  it("should sweep more than half a circle when the via point is behind", () => {
+    const arc = createArc([10, 0, 0], [0, -10, 0], [0, 10, 0]);
+    expect(arc.sweep).toBeCloseTo((3 * Math.PI) / 2, 9);
+    arc.pointAt(2 / 3).forEach((value, index) => {
+      expect(value).toBeCloseTo([-10, 0, 0][index], 9);
+    });
+  });
+
+  it("should reject points on one line", () => {
+    expect(() => createArc([0, 0, 0], [1, 1, 1], [2, 2, 2])).toThrow(
+      /on one line/
+    );
+    expect(() => createArc([0, 0, 0], [0, 0, 0], [2, 2, 2])).toThrow(
+      /on one line/
+    );
+  });
+});
+
+describe("createBlendedPath", () => {
+  const start: TPose = [300, 0, 400, 180, 0, 180];
+
+  function distanceTo(pose: TPose, point: number[]) {
+    return Math.hypot(...point.map((value, index) => pose[index] - value));
+  }
+
+  it("should go through every waypoint without zones", () => {
+    const path = createBlendedPath(start, [
+      { pose: [350, 0, 400, 180, 0, 180] },
+      { pose: [350, 50, 400, 180, 0, 180] },
+    ]);
+    expect(path.length).toBeCloseTo(100, 9);
+    expect(distanceTo(path.poseAt(0.5), [350, 0, 400])).toBeCloseTo(0, 9);
+    expect(distanceTo(path.poseAt(1), [350, 50, 400])).toBeCloseTo(0, 9);
+  });
+
+  it("should cut the corner within the zone", () => {
+    const path = createBlendedPath(start, [
+      { pose: [350, 0, 400, 180, 0, 180], zone: 10 },
+      { pose: [350, 50, 400, 180, 0, 180] },
+    ]);
+    expect(path.pieces).toBe(3);
+    // A parabolic blend is shorter than the two 10 mm legs it replaces
+    expect(path.length).toBeLessThan(100);
+    expect(path.length).toBeGreaterThan(95);
+
+    let closest = Infinity;
+    for (let i = 0; i <= 200; i++) {
+      const pose = path.poseAt(i / 200);
+      closest = Math.min(closest, distanceTo(pose, [350, 0, 400]));
+      // Never further from the corner than the zone while blending
+      if (pose[0] > 340 && pose[1] < 10) {
+        expect(distanceTo(pose, [350, 0, 400])).toBeLessThanOrEqual(10 + 1e-9);
+      }
+    }
+    // The corner point is passed at a quarter of the zone
+    expect(closest).toBeCloseTo(10 * Math.SQRT1_2 * 0.5, 1);
+    expect(distanceTo(path.poseAt(1), [350, 50, 400])).toBeCloseTo(0, 9);
+  });
+
+  it("should keep the blend within half of a short segment", () => {
+    const path = createBlendedPath(start, [
+      { pose: [310, 0, 400, 180, 0, 180], zone: 50 },
+      { pose: [310, 10, 400, 180, 0, 180] },
+    ]);
+    expect(distanceTo(path.poseAt(0), [300, 0, 400])).toBeCloseTo(0, 9);
+    expect(distanceTo(path.poseAt(1), [310, 10, 400])).toBeCloseTo(0, 9);
+    expect(path.pieces).toBe(3);
+  });
+
+  it("should turn the tool in place", () => {
+    const path = createBlendedPath(start, [
+      { pose: [300, 0, 400, 180, 0, 90] },
+    ]);
+    expect(path.length).toBeCloseTo(90, 9);
+    const halfway = path.poseAt(0.5);
+    expect(distanceTo(halfway, [300, 0, 400])).toBeCloseTo(0, 9);
+    expect(halfway[5]).toBeCloseTo(135, 6);
+  });
+});
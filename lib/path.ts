@@ -0,0 +1,266 @@
+import { add, cross, dot, multiply, norm, subtract } from "mathjs";
+import { Kinematics } from "./kinematics.ts";
+import { type TPose } from "./robot.ts";
+
+type TPoint = [number, number, number]; // [x, y, z]
+
+/**
+ * A point a path passes by
+ */
+export type Waypoint = {
+  pose: TPose;
+  /**
+   * Radius in mm around the point within which the path may cut the corner,
+   * 0 goes through the point exactly
+   */
+  zone?: number;
+};
+
+export type Path = {
+  /**
+   * Length of the path in mm, reorientation counts 1 mm per degree
+   */
+  length: number;
+  /**
+   * Number of straight and blended pieces the path is made of
+   */
+  pieces: number;
+  /**
+   * Pose at a fraction (0 to 1) of the path's length.
+   */
+  poseAt: (t: number) => TPose;
+};
+
+type PathPiece = { length: number; poseAt: (t: number) => TPose };
+
+// How much a degree of reorientation weighs against a mm of travel
+const MM_PER_DEGREE = 1;
+// Chords used to measure the length of a blend
+const BLEND_SAMPLES = 16;
+
+export type Arc = {
+  center: TPoint;
+  radius: number;
+  /**
+   * Angle swept from the start to the end point in radians, always positive
+   */
+  sweep: number;
+  /**
+   * Angle from the start point to the via point in radians
+   */
+  viaAngle: number;
+  /**
+   * Point on the arc at a fraction (0 to 1) of its length.
+   */
+  pointAt: (fraction: number) => TPoint;
+};
+
+/**
+ * Fits the circle through three points and returns the arc that runs from the start
+ * point through the via point to the end point.
+ * @param start Where the arc starts.
+ * @param via A point the arc passes through between start and end.
+ * @param end Where the arc ends.
+ * @throws If the points are (nearly) on one line, or two of them coincide.
+ */
+export function createArc(start: TPoint, via: TPoint, end: TPoint): Arc {
+  const a = subtract(start, end) as TPoint;
+  const b = subtract(via, end) as TPoint;
+  const aCrossB = cross(a, b) as TPoint;
+  const aCrossBSquared = dot(aCrossB, aCrossB);
+  if (aCrossBSquared <= 1e-9 * dot(a, a) * dot(b, b)) {
+    throw new Error("Cannot fit an arc through points that are on one line.");
+  }
+
+  // Circumcenter of the triangle start, via, end
+  const toCenter = subtract(
+    multiply(dot(a, a), b) as number[],
+    multiply(dot(b, b), a) as number[]
+  ) as number[];
+  const center = add(
+    end,
+    multiply(cross(toCenter, aCrossB) as number[], 1 / (2 * aCrossBSquared))
+  ) as TPoint;
+  const radius = norm(subtract(start, center)) as number;
+
+  // u points at the start, v is 90 degrees further along the direction of travel
+  const normal = cross(subtract(via, start), subtract(end, via)) as TPoint;
+  const u = multiply(subtract(start, center), 1 / radius) as TPoint;
+  const n = multiply(normal, 1 / (norm(normal) as number)) as TPoint;
+  const v = cross(n, u) as TPoint;
+
+  const angleOf = (point: TPoint) => {
+    const relative = subtract(point, center) as TPoint;
+    const angle = Math.atan2(dot(relative, v), dot(relative, u));
+    return angle < 0 ? angle + 2 * Math.PI : angle;
+  };
+  const sweep = angleOf(end);
+
+  return {
+    center,
+    radius,
+    sweep,
+    viaAngle: angleOf(via),
+    pointAt: (fraction: number) => {
+      const angle = sweep * fraction;
+      return add(
+        center,
+        add(
+          multiply(u, radius * Math.cos(angle)),
+          multiply(v, radius * Math.sin(angle))
+        )
+      ) as TPoint;
+    },
+  };
+}
+
+// Linear interpolation between two values
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+// Interpolate between two poses, the position along a straight line and
+// the orientation with a quaternion SLERP
+export function interpolatePose(p1: TPose, p2: TPose, t: number): TPose {
+  const { rx, ry, rz } = Kinematics.quaternionToEuler(
+    Kinematics.slerp(
+      Kinematics.eulerToQuaternion(p1[3], p1[4], p1[5]),
+      Kinematics.eulerToQuaternion(p2[3], p2[4], p2[5]),
+      t
+    )
+  );
+  return [
+    lerp(p1[0], p2[0], t),
+    lerp(p1[1], p2[1], t),
+    lerp(p1[2], p2[2], t),
+    rx,
+    ry,
+    rz,
+  ];
+}
+
+function positionOf(pose: TPose): TPoint {
+  return [pose[0], pose[1], pose[2]];
+}
+
+/**
+ * Distance between two poses, the travel in mm plus the reorientation in degrees.
+ */
+function poseDistance(p1: TPose, p2: TPose): number {
+  const q1 = Kinematics.eulerToQuaternion(p1[3], p1[4], p1[5]);
+  const q2 = Kinematics.eulerToQuaternion(p2[3], p2[4], p2[5]);
+  const cosHalfAngle = Math.min(
+    1,
+    Math.abs(q1.reduce((sum, value, i) => sum + value * q2[i], 0))
+  );
+  const degrees = (2 * Math.acos(cosHalfAngle) * 180) / Math.PI;
+  return Math.max(
+    norm(subtract(positionOf(p2), positionOf(p1))) as number,
+    degrees * MM_PER_DEGREE
+  );
+}
+
+function straightPiece(from: TPose, to: TPose): PathPiece {
+  return {
+    length: poseDistance(from, to),
+    poseAt: (t) => interpolatePose(from, to, t),
+  };
+}
+
+/**
+ * A parabolic blend from the pose `from` to the pose `to`, pulled towards the corner.
+ */
+function blendPiece(from: TPose, corner: TPoint, to: TPose): PathPiece {
+  const poseAt = (t: number): TPose => {
+    const [x, y, z] = add(
+      add(
+        multiply(positionOf(from), (1 - t) ** 2),
+        multiply(corner, 2 * (1 - t) * t)
+      ),
+      multiply(positionOf(to), t ** 2)
+    ) as TPoint;
+    const [, , , rx, ry, rz] = interpolatePose(from, to, t);
+    return [x, y, z, rx, ry, rz];
+  };
+  let length = 0;
+  for (let i = 1; i <= BLEND_SAMPLES; i++) {
+    length += poseDistance(
+      poseAt((i - 1) / BLEND_SAMPLES),
+      poseAt(i / BLEND_SAMPLES)
+    );
+  }
+  return { length, poseAt };
+}
+
+/**
+ * Builds a path from the start pose through every waypoint. Where a waypoint has a zone, the
+ * corner is rounded off with a parabolic blend that starts and ends on the straight segments
+ * within the zone radius (but no further than half way along either segment), so the tool keeps
+ * moving through it.
+ * The path is parameterized by length, so following it at a constant rate keeps the tool speed
+ * constant.
+ * @param start The pose the path starts at.
+ * @param waypoints The poses to pass by, the last one is where the path ends.
+ */
+export function createBlendedPath(start: TPose, waypoints: Waypoint[]): Path {
+  if (waypoints.length === 0) {
+    throw new Error("A path needs at least one waypoint.");
+  }
+  const poses = [start, ...waypoints.map((waypoint) => waypoint.pose)];
+
+  // How far before and after each pose its blend reaches, as a fraction of the segments
+  const blends = poses.map((pose, i) => {
+    const zone = waypoints[i - 1]?.zone ?? 0;
+    if (i === 0 || i === poses.length - 1 || zone <= 0) return 0;
+    const before = norm(
+      subtract(positionOf(pose), positionOf(poses[i - 1]))
+    ) as number;
+    const after = norm(
+      subtract(positionOf(poses[i + 1]), positionOf(pose))
+    ) as number;
+    if (before === 0 || after === 0) return 0;
+    return Math.min(zone, before / 2, after / 2);
+  });
+
+  const pieces: PathPiece[] = [];
+  for (let i = 1; i < poses.length; i++) {
+    const from = poses[i - 1];
+    const to = poses[i];
+    const length = norm(subtract(positionOf(to), positionOf(from))) as number;
+    const startFraction = blends[i - 1] > 0 ? blends[i - 1] / length : 0;
+    const endFraction = blends[i] > 0 ? 1 - blends[i] / length : 1;
+    const segmentStart = interpolatePose(from, to, startFraction);
+    const segmentEnd = interpolatePose(from, to, endFraction);
+
+    if (startFraction < endFraction) {
+      pieces.push(straightPiece(segmentStart, segmentEnd));
+    }
+    if (blends[i] > 0) {
+      const next = poses[i + 1];
+      const nextLength = norm(
+        subtract(positionOf(next), positionOf(to))
+      ) as number;
+      const blendEnd = interpolatePose(to, next, blends[i] / nextLength);
+      pieces.push(blendPiece(segmentEnd, positionOf(to), blendEnd));
+    }
+  }
+
+  const totalLength = pieces.reduce((sum, piece) => sum + piece.length, 0);
+  return {
+    length: totalLength,
+    pieces: pieces.length,
+    poseAt: (t: number) => {
+      if (totalLength === 0) return pieces[pieces.length - 1].poseAt(1);
+      let remaining = Math.min(Math.max(t, 0), 1) * totalLength;
+      for (const piece of pieces) {
+        if (remaining <= piece.length) {
+          return piece.poseAt(
+            piece.length === 0 ? 1 : remaining / piece.length
+          );
+        }
+        remaining -= piece.length;
+      }
+      return pieces[pieces.length - 1].poseAt(1);
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import { moveProgress, planJointMove, sampleJointMove } from "./planner.ts";
+
+describe("planJointMove", () => {
+  vi.mock("../config", () => ({
+    JOINT_CONFIGS: {
+      J1: { MAX_SPEED: 10, MAX_ACCELERATION: 10 },
+      J2: { MAX_SPEED: 20, MAX_ACCELERATION: 5 },
+      J3: { MAX_SPEED: 30, MAX_ACCELERATION: 20 },
+    },
+  }));
+
+  /**
+   * Largest speed and acceleration of each joint, by finite differences
+   */
+  function measurePeaks(plan: ReturnType<typeof planJointMove>) {
+    const dt = plan.duration / 2000;
+    const speeds = plan.start.map(() => 0);
+    const accelerations = plan.start.map(() => 0);
+    for (let t = dt; t < plan.duration - dt; t += dt) {
+      const [before, now, after] = [t - dt, t, t + dt].map((time) =>
+        sampleJointMove(plan, time)
+      );
+      now.forEach((angle, index) => {
+        const speed = Math.abs(after[index] - before[index]) / (2 * dt);
+        const acceleration =
+          Math.abs(after[index] - 2 * angle + before[index]) / dt ** 2;
+        speeds[index] = Math.max(speeds[index], speed);
+        accelerations[index] = Math.max(accelerations[index], acceleration);
+      });
+    }
+    return { speeds, accelerations };
+  }
+
+  it("should be limited by speed on a long move", () => {
+    const plan = planJointMove([0, 0, 0], [100, 50, -30]);
+    // J1 cruises at 10 deg/s after 1 s of accelerating at 10 deg/s^2
+    expect(plan.accelerationTime).toBeCloseTo(1, 6);
+    expect(plan.duration).toBeCloseTo(11, 6);
+    expect(plan.speeds).toEqual([10, 5, 3]);
+  });
+
+  it("should be a triangle when a joint cannot reach its max speed", () => {
+    const plan = planJointMove([0, 0, 0], [5, 5, 5]);
+    // J2 is limited by its acceleration: 5 = 5 * ta^2
+    expect(plan.accelerationTime).toBeCloseTo(1, 6);
+    expect(plan.duration).toBeCloseTo(2, 6);
+  });
+
+  it("should keep every joint within its limits and finish together", () => {
+    for (const profile of ["trapezoidal", "s-curve"] as const) {
+      const plan = planJointMove([10, -20, 5], [60, 30, -80], profile);
+      const { speeds, accelerations } = measurePeaks(plan);
+      [10, 20, 30].forEach((limit, index) => {
+        expect(speeds[index]).toBeLessThanOrEqual(limit * 1.001);
+      });
+      [10, 5, 20].forEach((limit, index) => {
+        expect(accelerations[index]).toBeLessThanOrEqual(limit * 1.01);
+      });
+      expect(sampleJointMove(plan, plan.duration)).toEqual([60, 30, -80]);
+    }
+  });
+
+  it("should take longer with an s-curve", () => {
+    const trapezoidal = planJointMove([0, 0, 0], [100, 50, -30]);
+    const sCurve = planJointMove([0, 0, 0], [100, 50, -30], "s-curve");
+    expect(sCurve.duration).toBeGreaterThan(trapezoidal.duration);
+    expect(sCurve.accelerationTime).toBeCloseTo(2, 6);
+  });
+
+  it("should progress smoothly from 0 to 1", () => {
+    for (const profile of ["trapezoidal", "s-curve"] as const) {
+      const plan = planJointMove([0, 0, 0], [30, 10, 20], profile);
+      expect(moveProgress(plan, 0)).toBe(0);
+      expect(moveProgress(plan, plan.duration / 2)).toBeCloseTo(0.5, 6);
+      expect(moveProgress(plan, plan.duration)).toBe(1);
+      let previous = 0;
+      for (let i = 1; i <= 100; i++) {
+        const progress = moveProgress(plan, (plan.duration * i) / 100);
+        expect(progress).toBeGreaterThanOrEqual(previous);
+        previous = progress;
+      }
+    }
+  });
+
+  it("should plan nothing for a move that goes nowhere", () => {
+    const plan = planJointMove([1, 2, 3], [1, 2, 3]);
+    expect(plan.duration).toBe(0);
+    expect(sampleJointMove(plan, 0)).toEqual([1, 2, 3]);
+  });
+});
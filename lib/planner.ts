@@ -0,0 +1,167 @@
+import { JOINT_CONFIGS } from "../config.ts";
+
+/**
+ * - trapezoidal: constant acceleration, cruise, constant deceleration
+ * - s-curve: the acceleration itself ramps up and down (limited jerk), so the
+ *   arm starts and stops without a kick
+ */
+export type MotionProfile = "trapezoidal" | "s-curve";
+
+export type JointMovePlan = {
+  profile: MotionProfile;
+  /**
+   * Joint angles in degrees at the start of the move (J1 to J6)
+   */
+  start: number[];
+  /**
+   * Joint angles in degrees at the end of the move (J1 to J6)
+   */
+  target: number[];
+  /**
+   * Total time of the move in seconds, shared by every joint
+   */
+  duration: number;
+  /**
+   * Time in seconds spent accelerating, and again decelerating
+   */
+  accelerationTime: number;
+  /**
+   * Cruise speed of each joint in degrees per second
+   */
+  speeds: number[];
+  /**
+   * Peak acceleration of each joint in degrees per second squared
+   */
+  accelerations: number[];
+};
+
+/**
+ * Plans a synchronized joint space move: every joint starts, reaches cruise speed,
+ * starts braking and stops at the same moment, and none exceeds the MAX_SPEED or
+ * MAX_ACCELERATION in its config. The shared timing is the shortest one that keeps
+ * the most constrained joint within its limits.
+ * @param start Joint angles in degrees at the start of the move.
+ * @param target Joint angles in degrees at the end of the move.
+ * @param profile The shape of the velocity profile.
+ * @param speedScale Fraction (0 to 1) of every joint's MAX_SPEED the move may use.
+ */
+export function planJointMove(
+  start: number[],
+  target: number[],
+  profile: MotionProfile = "trapezoidal",
+  speedScale = 1
+): JointMovePlan {
+  const distances = target.map((angle, index) =>
+    Math.abs(angle - start[index])
+  );
+  // An s-curve accelerates with a triangle instead of a rectangle, so its peak
+  // acceleration is twice the average
+  const peakToAverage = profile === "s-curve" ? 2 : 1;
+
+  // Time at cruise speed if the joint ran at its maximum speed
+  const speedBound = Math.max(
+    ...distances.map(
+      (distance, index) =>
+        distance / (JOINT_CONFIGS[`J${index + 1}`].MAX_SPEED * speedScale)
+    )
+  );
+  // (T - ta) * ta if the joint ran at its maximum acceleration
+  const accelerationBound = Math.max(
+    ...distances.map(
+      (distance, index) =>
+        (distance * peakToAverage) /
+        JOINT_CONFIGS[`J${index + 1}`].MAX_ACCELERATION
+    )
+  );
+
+  if (speedBound === 0 || accelerationBound === 0) {
+    return {
+      profile,
+      start,
+      target,
+      duration: 0,
+      accelerationTime: 0,
+      speeds: distances.map(() => 0),
+      accelerations: distances.map(() => 0),
+    };
+  }
+
+  // Either a triangle (never reaches cruise speed) or the shortest ramp that
+  // gets the slowest joint up to its maximum speed
+  const accelerationTime = Math.min(
+    Math.sqrt(accelerationBound),
+    accelerationBound / speedBound
+  );
+  const cruiseEnd = Math.max(speedBound, accelerationBound / accelerationTime);
+  const duration = accelerationTime + cruiseEnd;
+
+  const speeds = distances.map((distance) => distance / cruiseEnd);
+  return {
+    profile,
+    start,
+    target,
+    duration,
+    accelerationTime,
+    speeds,
+    accelerations: speeds.map(
+      (speed) => (speed / accelerationTime) * peakToAverage
+    ),
+  };
+}
+
+/**
+ * Distance covered while accelerating, as a fraction of cruise speed * acceleration time.
+ * @param u Fraction of the acceleration time elapsed (0 to 1).
+ */
+function rampDistance(profile: MotionProfile, u: number): number {
+  if (profile === "trapezoidal") {
+    return u ** 2 / 2;
+  }
+  // Velocity follows 2u^2 up to u = 0.5, then 1 - 2(1 - u)^2
+  if (u <= 0.5) {
+    return (2 * u ** 3) / 3;
+  }
+  return u - 0.5 + (2 / 3) * ((1 - u) ** 3 - 0.125) + 1 / 12;
+}
+
+/**
+ * How far along the move every joint is at a given time.
+ * @param plan A plan from planJointMove.
+ * @param time Time since the start of the move in seconds.
+ * @returns The fraction of the distance covered (0 to 1).
+ */
+export function moveProgress(plan: JointMovePlan, time: number): number {
+  const { duration, accelerationTime, profile } = plan;
+  if (duration === 0 || time >= duration) return 1;
+  if (time <= 0) return 0;
+
+  const cruiseEnd = duration - accelerationTime;
+  if (time < accelerationTime) {
+    return (
+      (accelerationTime * rampDistance(profile, time / accelerationTime)) /
+      cruiseEnd
+    );
+  }
+  if (time <= cruiseEnd) {
+    return (time - accelerationTime / 2) / cruiseEnd;
+  }
+  return (
+    1 -
+    (accelerationTime *
+      rampDistance(profile, (duration - time) / accelerationTime)) /
+      cruiseEnd
+  );
+}
+
+/**
+ * The joint angles at a given time of a planned move.
+ * @param plan A plan from planJointMove.
+ * @param time Time since the start of the move in seconds.
+ * @returns Joint angles in degrees (J1 to J6).
+ */
+export function sampleJointMove(plan: JointMovePlan, time: number): number[] {
+  const progress = moveProgress(plan, time);
+  return plan.start.map(
+    (angle, index) => angle + (plan.target[index] - angle) * progress
+  );
+}
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  parseProgram,
+  ProgramError,
+  ProgramInterpreter,
+  ProgramSyntaxError,
+} from "./program.ts";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+function syntaxErrors(source: string): ProgramError[] {
+  try {
+    parseProgram(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProgramSyntaxError);
+    return error.errors;
+  }
+  throw new Error("Expected the program not to parse.");
+}
+
+describe("parseProgram", () => {
+  it("should parse targets, blocks and subroutines", () => {
+    const program = parseProgram(`
+      # Pick and place
+      Target ready joints 0 0 0 0 90 0
+      TARGET above Pose 300 0 400 180 0 180   # comment after an instruction
+      speed 50
+      Loop 2
+        MoveJ ready
+        Call pick
+      EndLoop
+
+      Sub pick
+        MoveL above
+        SetDO 13 1
+        WaitDI 7 1 2.5
+        Wait 0.5
+      EndSub
+    `);
+
+    expect(program.targets.ready).toEqual({
+      name: "ready",
+      line: 3,
+      kind: "joints",
+      joints: [0, 0, 0, 0, 90, 0],
+    });
+    expect(program.targets.above.kind).toBe("pose");
+    expect(program.main).toEqual([
+      { kind: "Speed", line: 5, percent: 50 },
+      {
+        kind: "Loop",
+        line: 6,
+        count: 2,
+        body: [
+          { kind: "MoveJ", line: 7, target: "ready" },
+          { kind: "Call", line: 8, name: "pick" },
+        ],
+      },
+    ]);
+    expect(program.subroutines.pick.body.map((s) => s.kind)).toEqual([
+      "MoveL",
+      "SetDO",
+      "WaitDI",
+      "Wait",
+    ]);
+  });
+
+  it("should report every error with its line", () => {
+    const errors = syntaxErrors(
+      [
+        "MoveJ nowhere",
+        "Jump 3",
+        "Speed 150",
+        "Target a Joints 1 2 3",
+        "Loop 2",
+        "  SetDO 13 high",
+      ].join("\n")
+    );
+    expect(errors.map((error) => error.line)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(errors[0].message).toMatch(/Unknown target "nowhere"/);
+    expect(errors[1].message).toMatch(/Unknown instruction "Jump"/);
+    expect(errors[4].message).toMatch(/never closed/);
+  });
+
+  it("should reject unmatched blocks and duplicate names", () => {
+    const errors = syntaxErrors(
+      [
+        "EndLoop",
+        "Target a Joints 0 0 0 0 0 0",
+        "Target a Joints 0 0 0 0 0 0",
+        "Sub s",
+        "  Sub t",
+        "EndSub",
+      ].join("\n")
+    );
+    expect(errors.map((error) => error.line)).toEqual([1, 3, 5]);
+    expect(errors[1].message).toMatch(/already declared on line 2/);
+  });
+
+  it("should reject subroutines that call themselves", () => {
+    const errors = syntaxErrors(
+      [
+        "Call a",
+        "Sub a",
+        "  Call b",
+        "EndSub",
+        "Sub b",
+        "  Loop 2",
+        "    Call a",
+        "  EndLoop",
+        "EndSub",
+      ].join("\n")
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(7);
+    expect(errors[0].message).toMatch(/a -> b -> a/);
+  });
+});
+
+describe("ProgramInterpreter on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+  });
+
+  afterEach(() => {
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  function interpreterFor(source: string) {
+    return new ProgramInterpreter(
+      robot,
+      sim as unknown as FirmataType,
+      parseProgram(source)
+    );
+  }
+
+  it("should run a program to the end", async () => {
+    const interpreter = interpreterFor(`
+      Target a Joints 20 10 -10 0 30 0
+      Target b Joints 10 5 -5 10 40 10
+      Home
+      Speed 50
+      Loop 2
+        MoveJ a
+        MoveJ b
+      EndLoop
+      SetDO 13 1
+      WaitDI 7 1
+      MoveJ a
+    `);
+    const lines: number[] = [];
+    interpreter.on("line", (line) => lines.push(line));
+
+    const run = interpreter.run();
+    // Done homing and looping, waiting for the input
+    await runFor(
+      new Promise((resolve) => setTimeout(resolve, 180_000)),
+      180_000
+    );
+    expect(interpreter.CurrentLine).toBe(11);
+    expect(sim.digitalOutput(13)).toBe(1);
+    expect(robot.speedScale).toBe(0.5);
+
+    sim.setDigitalInput(7, 1);
+    await runFor(run, 60_000);
+    expect(interpreter.State).toBe("finished");
+    expect(robot.speedScale).toBe(1);
+    expect(lines).toEqual([4, 5, 6, 7, 8, 7, 8, 10, 11, 12]);
+    [20, 10, -10, 0, 30, 0].forEach((angle, index) => {
+      expect(sim.physicalDegrees(index)).toBeCloseTo(angle, 0);
+    });
+  });
+
+  it("should step one instruction at a time", async () => {
+    const interpreter = interpreterFor(`
+      SetDO 13 1
+      Call outputs
+      Wait 1
+      Sub outputs
+        SetDO 12 1
+      EndSub
+    `);
+
+    await interpreter.step();
+    expect(interpreter.State).toBe("paused");
+    expect(interpreter.CurrentLine).toBe(3);
+    expect(sim.digitalOutput(13)).toBe(1);
+
+    // The subroutine's lines are stepped into
+    await interpreter.step();
+    expect(interpreter.CurrentLine).toBe(6);
+    expect(sim.digitalOutput(12)).toBe(0);
+    await interpreter.step();
+    expect(sim.digitalOutput(12)).toBe(1);
+
+    await runFor(interpreter.run(), 5_000);
+    expect(interpreter.State).toBe("finished");
+  });
+
+  it("should pause between instructions and abort", async () => {
+    const interpreter = interpreterFor("Wait 2\nSetDO 13 1\nWait 2");
+
+    const run = interpreter.run();
+    await vi.advanceTimersByTimeAsync(1_000);
+    interpreter.pause();
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(interpreter.State).toBe("paused");
+    expect(interpreter.CurrentLine).toBe(2);
+    expect(sim.digitalOutput(13)).toBe(0);
+
+    const aborted = expect(run).rejects.toThrow(/aborted/);
+    await interpreter.abort();
+    await aborted;
+    expect(interpreter.State).toBe("aborted");
+    expect(sim.digitalOutput(13)).toBe(0);
+  });
+
+  it("should abort a wait in progress", async () => {
+    const interpreter = interpreterFor("WaitDI 7 1\nSetDO 13 1");
+
+    const run = interpreter.run();
+    await vi.advanceTimersByTimeAsync(1_000);
+    const aborted = expect(run).rejects.toMatchObject({ line: 1 });
+    await interpreter.abort();
+    await aborted;
+    expect(sim.digitalOutput(13)).toBe(0);
+  });
+
+  it("should abort with the board disconnected", async () => {
+    const interpreter = interpreterFor("Speed 20\nWaitDI 7 1\nSetDO 13 1");
+
+    const run = interpreter.run();
+    await vi.advanceTimersByTimeAsync(1_000);
+    robot.disconnect("The serial port closed");
+    const aborted = expect(run).rejects.toMatchObject({ line: 2 });
+    await interpreter.abort();
+    await aborted;
+    expect(interpreter.State).toBe("aborted");
+    expect(robot.speedScale).toBe(1);
+  });
+
+  it("should report the line an instruction failed on", async () => {
+    const interpreter = interpreterFor(
+      "Target a Joints 10 0 0 0 0 0\nSetDO 13 1\nMoveJ a\nSetDO 12 1"
+    );
+
+    // Not homed yet
+    await expect(runFor(interpreter.run(), 5_000)).rejects.toMatchObject({
+      line: 3,
+    });
+    expect(interpreter.State).toBe("failed");
+    expect(sim.digitalOutput(13)).toBe(1);
+    expect(sim.digitalOutput(12)).toBe(0);
+  });
+
+  it("should switch between tools by value and by name", async () => {
+    robot.tools.add({ name: "gripper", tcp: [0, 0, 120, 0, 0, 0] });
+    const interpreter = interpreterFor(
+      "Tool 0 0 50 0 0 0\nWait 1\nTool gripper\nWait 1\nTool welder"
+    );
+
+    const run = interpreter.run();
+    run.catch(() => {});
+    await vi.advanceTimersByTimeAsync(500);
+    expect(robot.Tool).toEqual([0, 0, 50, 0, 0, 0]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(robot.tools.Active.name).toBe("gripper");
+    expect(robot.Tool).toEqual([0, 0, 120, 0, 0, 0]);
+
+    // The tool the robot had is back once the program ends
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(run).rejects.toThrow(/Line 5: No tool named "welder"/);
+    expect(robot.tools.Active.name).toBe("flange");
+    expect(robot.Tool).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it("should restore a tool frame set without the tool manager", async () => {
+    robot.setToolFrame([0, 0, 75, 0, 0, 0]);
+    const interpreter = interpreterFor("Tool 0 0 50 0 0 0\nSetDO 13 1");
+
+    await runFor(interpreter.run(), 1_000);
+    expect(interpreter.State).toBe("finished");
+    expect(robot.Tool).toEqual([0, 0, 75, 0, 0, 0]);
+  });
+
+  it("should time out waiting for an input", async () => {
+    const interpreter = interpreterFor("WaitDI 7 1 2");
+
+    const run = runFor(interpreter.run(), 5_000);
+    await expect(run).rejects.toThrow(/Line 1: Input 7 did not become 1/);
+  });
+});
@@ -0,0 +1,735 @@
+import EventEmitter from "events";
+import { type Robot, type TPose } from "./robot.ts";
+import { type FirmataType } from "./Firmata.ts";
+
+/**
+ * A robot program is plain text, one instruction per line. Keywords are not case
+ * sensitive, names are. Everything after a # is a comment.
+ *
+ *   # Targets can be declared anywhere, in joint angles (degrees) or as a pose
+ *   Target ready Joints 0 0 0 0 90 0
+ *   Target above Pose 300 0 400 180 0 180
+ *
+ *   Speed 50                  # percent of every joint's MAX_SPEED
+ *   Tool 0 0 120 0 0 0        # tool center point from the flange, x y z rx ry rz
+ *   Tool gripper              # or a tool from the robot's tool manager, by name
+ *   Home                      # home every joint
+ *   MoveJ ready               # synchronized joint move
+ *   MoveL above               # straight line
+ *   MoveC via end             # arc from the current pose through via to end
+ *   SetDO 13 1                # digital output
+ *   WaitDI 7 1 5              # wait for a digital input, optionally at most 5 seconds
+ *   Wait 0.5                  # seconds
+ *   Call pick
+ *   Loop 3
+ *     MoveL above
+ *   EndLoop
+ *
+ *   Sub pick                  # subroutines are declared at the top level
+ *     MoveL above
+ *   EndSub
+ *
+ * Speed and Tool last until the program ends, the robot's speed and tool are restored then.
+ */
+
+export type ProgramTarget = {
+  name: string;
+  line: number;
+} & ({ kind: "joints"; joints: number[] } | { kind: "pose"; pose: TPose });
+
+export type Statement = { line: number } & (
+  | { kind: "Home" }
+  | { kind: "MoveJ"; target: string }
+  | { kind: "MoveL"; target: string }
+  | { kind: "MoveC"; via: string; target: string }
+  | { kind: "Speed"; percent: number }
+  | { kind: "Tool"; tool: TPose | string }
+  | { kind: "SetDO"; pin: number; value: number }
+  | { kind: "WaitDI"; pin: number; value: number; timeout?: number }
+  | { kind: "Wait"; seconds: number }
+  | { kind: "Call"; name: string }
+  | { kind: "Loop"; count: number; body: Statement[] }
+);
+
+export type Subroutine = { name: string; line: number; body: Statement[] };
+
+export type Program = {
+  targets: Record<string, ProgramTarget>;
+  subroutines: Record<string, Subroutine>;
+  main: Statement[];
+};
+
+/**
+ * Something wrong with a program, at a line (counted from 1).
+ */
+export class ProgramError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "ProgramError";
+  }
+}
+
+/**
+ * Every problem found by checking a program before it runs.
+ */
+export class ProgramSyntaxError extends Error {
+  constructor(public readonly errors: ProgramError[]) {
+    super(
+      `Program has ${errors.length} error(s):\n${errors
+        .map((error) => error.message)
+        .join("\n")}`
+    );
+    this.name = "ProgramSyntaxError";
+  }
+}
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function parseNumbers(words: string[], line: number): number[] {
+  return words.map((word) => {
+    const value = Number(word);
+    if (word === "" || !Number.isFinite(value)) {
+      throw new ProgramError(`"${word}" is not a number.`, line);
+    }
+    return value;
+  });
+}
+
+function expectArguments(
+  keyword: string,
+  words: string[],
+  line: number,
+  min: number,
+  max = min
+) {
+  if (words.length < min || words.length > max) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`;
+    throw new ProgramError(
+      `${keyword} takes ${expected} argument(s), got ${words.length}.`,
+      line
+    );
+  }
+}
+
+function expectName(word: string, line: number): string {
+  if (!NAME.test(word)) {
+    throw new ProgramError(`"${word}" is not a valid name.`, line);
+  }
+  return word;
+}
+
+function expectDigital(value: number, line: number): number {
+  if (value !== 0 && value !== 1) {
+    throw new ProgramError(`Digital value must be 0 or 1, got ${value}.`, line);
+  }
+  return value;
+}
+
+function expectPin(value: number, line: number): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new ProgramError(`"${value}" is not a pin number.`, line);
+  }
+  return value;
+}
+
+/**
+ * Parses a single instruction that is not a block keyword or a target.
+ */
+function parseStatement(
+  keyword: string,
+  args: string[],
+  line: number
+): Statement {
+  switch (keyword.toLowerCase()) {
+    case "home":
+      expectArguments("Home", args, line, 0);
+      return { kind: "Home", line };
+    case "movej":
+      expectArguments("MoveJ", args, line, 1);
+      return { kind: "MoveJ", line, target: expectName(args[0], line) };
+    case "movel":
+      expectArguments("MoveL", args, line, 1);
+      return { kind: "MoveL", line, target: expectName(args[0], line) };
+    case "movec":
+      expectArguments("MoveC", args, line, 2);
+      return {
+        kind: "MoveC",
+        line,
+        via: expectName(args[0], line),
+        target: expectName(args[1], line),
+      };
+    case "speed": {
+      expectArguments("Speed", args, line, 1);
+      const [percent] = parseNumbers(args, line);
+      if (percent <= 0 || percent > 100) {
+        throw new ProgramError(
+          `Speed must be above 0 and at most 100 percent, got ${percent}.`,
+          line
+        );
+      }
+      return { kind: "Speed", line, percent };
+    }
+    case "tool":
+      if (args.length === 1) {
+        return { kind: "Tool", line, tool: expectName(args[0], line) };
+      }
+      expectArguments("Tool", args, line, 6);
+      return { kind: "Tool", line, tool: parseNumbers(args, line) as TPose };
+    case "setdo": {
+      expectArguments("SetDO", args, line, 2);
+      const [pin, value] = parseNumbers(args, line);
+      return {
+        kind: "SetDO",
+        line,
+        pin: expectPin(pin, line),
+        value: expectDigital(value, line),
+      };
+    }
+    case "waitdi": {
+      expectArguments("WaitDI", args, line, 2, 3);
+      const [pin, value, timeout] = parseNumbers(args, line);
+      if (timeout !== undefined && timeout <= 0) {
+        throw new ProgramError(
+          `WaitDI timeout must be positive, got ${timeout}.`,
+          line
+        );
+      }
+      return {
+        kind: "WaitDI",
+        line,
+        pin: expectPin(pin, line),
+        value: expectDigital(value, line),
+        timeout,
+      };
+    }
+    case "wait": {
+      expectArguments("Wait", args, line, 1);
+      const [seconds] = parseNumbers(args, line);
+      if (seconds < 0) {
+        throw new ProgramError(
+          `Wait cannot be negative, got ${seconds}.`,
+          line
+        );
+      }
+      return { kind: "Wait", line, seconds };
+    }
+    case "call":
+      expectArguments("Call", args, line, 1);
+      return { kind: "Call", line, name: expectName(args[0], line) };
+    default:
+      throw new ProgramError(`Unknown instruction "${keyword}".`, line);
+  }
+}
+
+function parseTarget(args: string[], line: number): ProgramTarget {
+  expectArguments("Target", args, line, 8);
+  const name = expectName(args[0], line);
+  const values = parseNumbers(args.slice(2), line);
+  switch (args[1].toLowerCase()) {
+    case "joints":
+      return { name, line, kind: "joints", joints: values };
+    case "pose":
+      return { name, line, kind: "pose", pose: values as TPose };
+    default:
+      throw new ProgramError(
+        `Target ${name} must be given as Joints or Pose, got "${args[1]}".`,
+        line
+      );
+  }
+}
+
+/**
+ * Checks that every name a statement uses is declared, and that no subroutine calls itself.
+ */
+function checkReferences(program: Program, errors: ProgramError[]) {
+  const checkTarget = (name: string, line: number) => {
+    if (!program.targets[name]) {
+      errors.push(new ProgramError(`Unknown target "${name}".`, line));
+    }
+  };
+  const checkBlock = (body: Statement[]) => {
+    for (const statement of body) {
+      switch (statement.kind) {
+        case "MoveJ":
+        case "MoveL":
+          checkTarget(statement.target, statement.line);
+          break;
+        case "MoveC":
+          checkTarget(statement.via, statement.line);
+          checkTarget(statement.target, statement.line);
+          break;
+        case "Call":
+          if (!program.subroutines[statement.name]) {
+            errors.push(
+              new ProgramError(
+                `Unknown subroutine "${statement.name}".`,
+                statement.line
+              )
+            );
+          }
+          break;
+        case "Loop":
+          checkBlock(statement.body);
+          break;
+      }
+    }
+  };
+  checkBlock(program.main);
+  Object.values(program.subroutines).forEach((sub) => checkBlock(sub.body));
+
+  // Depth first through the calls, a subroutine already on the stack is a cycle
+  const callsOf = (body: Statement[]): Statement[] =>
+    body.flatMap((statement) =>
+      statement.kind === "Call"
+        ? [statement]
+        : statement.kind === "Loop"
+        ? callsOf(statement.body)
+        : []
+    );
+  const visit = (sub: Subroutine, stack: string[], done: Set<string>) => {
+    if (done.has(sub.name)) return;
+    for (const call of callsOf(sub.body)) {
+      if (call.kind !== "Call") continue;
+      const callee = program.subroutines[call.name];
+      if (!callee) continue;
+      if (stack.includes(call.name)) {
+        errors.push(
+          new ProgramError(
+            `Subroutine "${call.name}" calls itself through ${[
+              ...stack,
+              call.name,
+            ].join(" -> ")}.`,
+            call.line
+          )
+        );
+        continue;
+      }
+      visit(callee, [...stack, call.name], done);
+    }
+    done.add(sub.name);
+  };
+  const done = new Set<string>();
+  Object.values(program.subroutines).forEach((sub) =>
+    visit(sub, [sub.name], done)
+  );
+}
+
+/**
+ * Parses and checks a program without moving anything, so a typo on the last line cannot
+ * stop the arm half way through.
+ * @param source The program text.
+ * @throws ProgramSyntaxError listing every problem found, each with its line.
+ */
+export function parseProgram(source: string): Program {
+  const program: Program = { targets: {}, subroutines: {}, main: [] };
+  const errors: ProgramError[] = [];
+  // Open blocks, innermost last
+  const blocks: ({ line: number; body: Statement[] } & (
+    | { kind: "Loop" }
+    | { kind: "Sub"; name: string }
+  ))[] = [];
+  const currentBody = () =>
+    blocks.length > 0 ? blocks[blocks.length - 1].body : program.main;
+
+  source.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    const words = text.replace(/#.*$/, "").trim().split(/\s+/);
+    if (words[0] === "") return;
+    const [keyword, ...args] = words;
+
+    try {
+      switch (keyword.toLowerCase()) {
+        case "target": {
+          const target = parseTarget(args, line);
+          if (program.targets[target.name]) {
+            throw new ProgramError(
+              `Target "${target.name}" is already declared on line ${
+                program.targets[target.name].line
+              }.`,
+              line
+            );
+          }
+          program.targets[target.name] = target;
+          break;
+        }
+        case "sub": {
+          expectArguments("Sub", args, line, 1);
+          const name = expectName(args[0], line);
+          if (blocks.length > 0) {
+            throw new ProgramError(
+              `Subroutine "${name}" must be declared at the top level.`,
+              line
+            );
+          }
+          if (program.subroutines[name]) {
+            throw new ProgramError(
+              `Subroutine "${name}" is already declared on line ${program.subroutines[name].line}.`,
+              line
+            );
+          }
+          blocks.push({ kind: "Sub", name, line, body: [] });
+          break;
+        }
+        case "endsub": {
+          expectArguments("EndSub", args, line, 0);
+          const block = blocks[blocks.length - 1];
+          if (block?.kind !== "Sub") {
+            throw new ProgramError("EndSub without a matching Sub.", line);
+          }
+          blocks.pop();
+          program.subroutines[block.name] = {
+            name: block.name,
+            line: block.line,
+            body: block.body,
+          };
+          break;
+        }
+        case "loop": {
+          expectArguments("Loop", args, line, 1);
+          const [count] = parseNumbers(args, line);
+          if (!Number.isInteger(count) || count < 1) {
+            throw new ProgramError(
+              `Loop count must be a whole number of at least 1, got ${count}.`,
+              line
+            );
+          }
+          const body: Statement[] = [];
+          currentBody().push({ kind: "Loop", line, count, body });
+          blocks.push({ kind: "Loop", line, body });
+          break;
+        }
+        case "endloop": {
+          expectArguments("EndLoop", args, line, 0);
+          if (blocks[blocks.length - 1]?.kind !== "Loop") {
+            throw new ProgramError("EndLoop without a matching Loop.", line);
+          }
+          blocks.pop();
+          break;
+        }
+        default:
+          currentBody().push(parseStatement(keyword, args, line));
+      }
+    } catch (error) {
+      if (!(error instanceof ProgramError)) throw error;
+      errors.push(error);
+    }
+  });
+
+  blocks.forEach((block) =>
+    errors.push(
+      new ProgramError(
+        `${block.kind} is never closed with End${block.kind}.`,
+        block.line
+      )
+    )
+  );
+  checkReferences(program, errors);
+
+  if (errors.length > 0) {
+    throw new ProgramSyntaxError(errors.sort((a, b) => a.line - b.line));
+  }
+  return program;
+}
+
+/**
+ * - idle: not started yet
+ * - running: executing instructions
+ * - paused: waiting for run or step before the next instruction
+ * - finished: ran to the end
+ * - aborted: stopped by abort
+ * - failed: an instruction threw
+ */
+export type ProgramState =
+  | "idle"
+  | "running"
+  | "paused"
+  | "finished"
+  | "aborted"
+  | "failed";
+
+/**
+ * Runs a parsed program against a robot.
+ *
+ * Pausing and stepping take effect between instructions, a motion in progress always
+ * completes. Aborting halts the arm at once.
+ *
+ * Emits "state" with the new ProgramState and "line" with the line about to run.
+ */
+export class ProgramInterpreter extends EventEmitter {
+  private state: ProgramState = "idle";
+  private currentLine: number | undefined;
+  private execution: Promise<void> | undefined;
+  private pauseRequested = false;
+  private stepping = false;
+  private aborted = false;
+  private resumePaused: (() => void) | undefined;
+  private rejectAborted: (error: Error) => void;
+  // Rejects on abort, raced against whatever the current instruction waits for
+  private abortedPromise: Promise<never>;
+
+  get State(): ProgramState {
+    return this.state;
+  }
+
+  /**
+   * The line of the instruction running, or about to run when paused.
+   */
+  get CurrentLine(): number | undefined {
+    return this.currentLine;
+  }
+
+  /**
+   * @param robot - The robot to move.
+   * @param io - The board SetDO and WaitDI use.
+   * @param program - A program from parseProgram.
+   */
+  constructor(
+    private robot: Robot,
+    private io: FirmataType,
+    private program: Program
+  ) {
+    super();
+    this.abortedPromise = new Promise<never>((_, reject) => {
+      this.rejectAborted = reject;
+    });
+    this.abortedPromise.catch(() => {});
+  }
+
+  /**
+   * Runs the program until it ends, or carries on after a pause.
+   * @returns Resolves when the program finishes, rejects with a ProgramError when an
+   * instruction fails or the program is aborted.
+   */
+  public run(): Promise<void> {
+    this.stepping = false;
+    this.pauseRequested = false;
+    return this.start();
+  }
+
+  /**
+   * Runs the next instruction and pauses again. A Loop or Call counts as one
+   * instruction per line inside it.
+   * @returns Resolves once the program is paused or has ended.
+   */
+  public step(): Promise<void> {
+    this.stepping = true;
+    this.pauseRequested = false;
+    const stopped = new Promise<void>((resolve) => {
+      const onState = (state: ProgramState) => {
+        if (state !== "running") {
+          this.off("state", onState);
+          resolve();
+        }
+      };
+      this.on("state", onState);
+    });
+    this.start().catch(() => {});
+    return stopped;
+  }
+
+  /**
+   * Pauses before the next instruction.
+   */
+  public pause() {
+    if (this.state === "running") {
+      this.pauseRequested = true;
+    }
+  }
+
+  /**
+   * Stops the program and halts the arm where it is, if it can be halted.
+   */
+  public async abort() {
+    if (this.state !== "running" && this.state !== "paused") return;
+    this.aborted = true;
+    this.rejectAborted(
+      new ProgramError("Program aborted.", this.currentLine ?? 0)
+    );
+    this.resumePaused?.();
+    try {
+      await this.robot.halt();
+    } catch {
+      // Nothing to halt, e.g. the board is disconnected, the program ends all the same
+    }
+  }
+
+  private start(): Promise<void> {
+    if (this.state === "idle") {
+      this.execution = this.execute();
+      this.execution.catch(() => {});
+    } else if (this.state === "paused") {
+      this.setState("running");
+      this.resumePaused?.();
+    } else if (this.state !== "running") {
+      return Promise.reject(
+        new Error(`Program has ${this.state}, it cannot be run again.`)
+      );
+    }
+    return this.execution;
+  }
+
+  private setState(state: ProgramState) {
+    this.state = state;
+    this.emit("state", state);
+  }
+
+  private async execute() {
+    const speedScale = this.robot.speedScale;
+    // A tool frame set without the tool manager is not its active tool, so both are kept
+    const tool = this.robot.tools.Active.name;
+    const toolFrame = this.robot.Tool;
+    this.setState("running");
+    try {
+      await this.executeBlock(this.program.main);
+      this.setState("finished");
+    } catch (error) {
+      if (this.aborted) {
+        this.setState("aborted");
+        throw new ProgramError("Program aborted.", this.currentLine ?? 0);
+      }
+      this.setState("failed");
+      throw error instanceof ProgramError
+        ? error
+        : new ProgramError(error.message, this.currentLine ?? 0);
+    } finally {
+      this.robot.speedScale = speedScale;
+      this.robot.tools.select(tool);
+      this.robot.setToolFrame(toolFrame);
+    }
+  }
+
+  private async executeBlock(body: Statement[]) {
+    for (const statement of body) {
+      await this.checkpoint(statement);
+      // Stepping pauses at the very next checkpoint, which may be inside this statement
+      if (this.stepping) {
+        this.pauseRequested = true;
+      }
+      await Promise.race([
+        this.executeStatement(statement),
+        this.abortedPromise,
+      ]);
+    }
+  }
+
+  /**
+   * Waits out a pause before a statement, and gives up if the program was aborted.
+   */
+  private async checkpoint(statement: Statement) {
+    if (this.pauseRequested && !this.aborted) {
+      this.pauseRequested = false;
+      await new Promise<void>((resolve) => {
+        this.resumePaused = resolve;
+        this.currentLine = statement.line;
+        this.setState("paused");
+      });
+      this.resumePaused = undefined;
+    }
+    if (this.aborted) {
+      await this.abortedPromise;
+    }
+    this.currentLine = statement.line;
+    this.emit("line", statement.line);
+  }
+
+  private async executeStatement(statement: Statement) {
+    switch (statement.kind) {
+      case "Home":
+        await this.robot.home();
+        break;
+      case "MoveJ": {
+        const target = this.program.targets[statement.target];
+        await this.robot.moveJ(
+          target.kind === "joints"
+            ? { joints: target.joints }
+            : { pose: target.pose }
+        );
+        break;
+      }
+      case "MoveL":
+        await this.robot.moveToLinearly(this.poseOf(statement.target));
+        break;
+      case "MoveC":
+        await this.robot.moveC(
+          this.poseOf(statement.via),
+          this.poseOf(statement.target)
+        );
+        break;
+      case "Speed":
+        this.robot.speedScale = statement.percent / 100;
+        break;
+      case "Tool":
+        if (typeof statement.tool === "string") {
+          this.robot.tools.select(statement.tool);
+        } else {
+          this.robot.setToolFrame(statement.tool);
+        }
+        break;
+      case "SetDO":
+        this.io.pinMode(statement.pin, this.io.MODES.OUTPUT);
+        this.io.digitalWrite(
+          statement.pin,
+          statement.value ? this.io.HIGH : this.io.LOW
+        );
+        break;
+      case "WaitDI":
+        await this.waitForInput(
+          statement.pin,
+          statement.value ? this.io.HIGH : this.io.LOW,
+          statement.timeout
+        );
+        break;
+      case "Wait":
+        await new Promise((resolve) =>
+          setTimeout(resolve, statement.seconds * 1000)
+        );
+        break;
+      case "Call":
+        await this.executeBlock(this.program.subroutines[statement.name].body);
+        break;
+      case "Loop":
+        for (let i = 0; i < statement.count; i++) {
+          await this.executeBlock(statement.body);
+        }
+        break;
+    }
+  }
+
+  /**
+   * The pose of a target, joint targets go through forward kinematics with the current tool.
+   */
+  private poseOf(name: string): TPose {
+    const target = this.program.targets[name];
+    return target.kind === "pose"
+      ? target.pose
+      : this.robot.poseOf(target.joints);
+  }
+
+  private waitForInput(pin: number, value: number, timeout?: number) {
+    return new Promise<void>((resolve, reject) => {
+      let timeoutId: NodeJS.Timeout | undefined;
+      const onValue = (current: number) => {
+        if (current !== value) return;
+        clearTimeout(timeoutId);
+        this.io.removeListener(`digital-read-${pin}`, onValue);
+        resolve();
+      };
+      if (timeout !== undefined) {
+        timeoutId = setTimeout(() => {
+          this.io.removeListener(`digital-read-${pin}`, onValue);
+          reject(
+            new Error(
+              `Input ${pin} did not become ${value} within ${timeout} seconds.`
+            )
+          );
+        }, timeout * 1000);
+      }
+      this.abortedPromise.catch(() => {
+        clearTimeout(timeoutId);
+        this.io.removeListener(`digital-read-${pin}`, onValue);
+      });
+      this.io.pinMode(pin, this.io.MODES.INPUT);
+      this.io.digitalRead(pin, onValue);
+    });
+  }
+}
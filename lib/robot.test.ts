@@ -0,0 +1,365 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Robot } from "./robot.ts";
+import { RobotStateError } from "./state.ts";
+import { MotionSegmentError } from "./motion.ts";
+import { StepLossError } from "./Joint.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+describe("Robot on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS), {
+      initialDegrees: { J1: 30, J2: 10, J3: -20, J4: 0, J5: 45, J6: -90 },
+    });
+    robot = new Robot(sim as unknown as FirmataType);
+  });
+
+  afterEach(() => {
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  it("should home every joint against its home switch", async () => {
+    expect(robot.Homed).toBe(false);
+    await runFor(robot.home(), 120_000);
+
+    expect(robot.Homed).toBe(true);
+    for (let deviceNum = 0; deviceNum < 6; deviceNum++) {
+      expect(sim.physicalDegrees(deviceNum)).toBeCloseTo(0, 0);
+    }
+  });
+
+  it("should refuse to move before homing", async () => {
+    await expect(robot.rotateBy([10, 0, 0, 0, 0, 0])).rejects.toThrow(
+      /must be homed/
+    );
+  });
+
+  it("should refuse commands the state does not accept", async () => {
+    const states: string[] = [];
+    robot.on("state", (state) => states.push(state));
+
+    const homing = robot.home();
+    expect(robot.State).toBe("Homing");
+    await expect(robot.moveJ({ joints: [10, 0, 0, 0, 0, 0] })).rejects.toThrow(
+      RobotStateError
+    );
+    await expect(robot.moveByLinearlyXYZ(10, 0, 0)).rejects.toMatchObject({
+      command: "move",
+      state: "Homing",
+    });
+    await runFor(homing, 120_000);
+    expect(robot.State).toBe("Idle");
+    expect(() => robot.resume()).toThrow(/Cannot resume/);
+
+    await runFor(robot.estop(), 1_000);
+    await expect(robot.rotateBy([10, 0, 0, 0, 0, 0])).rejects.toThrow(
+      /emergency stop is engaged/
+    );
+    // Not even a joint on its own
+    await expect(robot.J1.rotateTo(10)).rejects.toThrow(RobotStateError);
+    await expect(robot.home()).rejects.toThrow(RobotStateError);
+
+    robot.reset();
+    expect(robot.State).toBe("Idle");
+    expect(states).toEqual(["Homing", "Idle", "EStopped", "Idle"]);
+  });
+
+  it("should pause, resume and halt a move", async () => {
+    await runFor(robot.home(), 120_000);
+
+    const move = robot.moveJ({ joints: [40, 0, 0, 0, 0, 0] });
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(robot.State).toBe("Moving");
+    await runFor(robot.pause(), 1_000);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(robot.State).toBe("Paused");
+    const pausedAt = sim.physicalDegrees(0);
+    expect(pausedAt).toBeGreaterThan(0);
+    expect(pausedAt).toBeLessThan(40);
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(sim.physicalDegrees(0)).toBeCloseTo(pausedAt, 1);
+
+    robot.resume();
+    await runFor(move, 60_000);
+    expect(robot.State).toBe("Idle");
+    expect(sim.physicalDegrees(0)).toBeCloseTo(40, 0);
+
+    const back = robot.moveJ({ joints: [0, 0, 0, 0, 0, 0] });
+    // Rejects once halted
+    back.catch(() => {});
+    await vi.advanceTimersByTimeAsync(500);
+    await robot.halt();
+    await expect(back).rejects.toThrow(/Move halted/);
+    expect(robot.State).toBe("Idle");
+    expect(robot.J1.Degrees).toBeGreaterThan(0);
+  });
+
+  it("should rotate joints by relative angles after homing", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([10, 5, -5, 20, 30, 40]), 30_000);
+
+    expect(robot.J1.Degrees).toBeCloseTo(10, 1);
+    expect(robot.J2.Degrees).toBeCloseTo(5, 1);
+    expect(robot.J3.Degrees).toBeCloseTo(-5, 1);
+    expect(robot.J4.Degrees).toBeCloseTo(20, 1);
+    expect(robot.J5.Degrees).toBeCloseTo(30, 1);
+    expect(robot.J6.Degrees).toBeCloseTo(40, 0);
+    expect(sim.physicalDegrees(0)).toBeCloseTo(10, 0);
+  });
+
+  it("should move the tool along a straight line", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 60, 5]), 30_000);
+    const [x, y, z] = robot.Pose;
+
+    // Resolves once the joints report they have arrived
+    await runFor(robot.moveByLinearlyXYZ(20, 10, -10), 30_000);
+
+    const pose = robot.Pose;
+    expect(pose[0]).toBeCloseTo(x + 20, 0);
+    expect(pose[1]).toBeCloseTo(y + 10, 0);
+    expect(pose[2]).toBeCloseTo(z - 10, 0);
+  });
+
+  it("should reject a linear move near a singularity before moving", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 8, 5]), 30_000);
+    const degrees = [robot.J1, robot.J2, robot.J3].map(
+      (joint) => joint.Degrees
+    );
+
+    await expect(
+      robot.moveToLinearly(robot.poseOf([5, 10, 10, 5, 0, 5]))
+    ).rejects.toThrow(/wrist singularity/);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(
+      [robot.J1, robot.J2, robot.J3].map((joint) => joint.Degrees)
+    ).toEqual(degrees);
+  });
+
+  it("should move away from a singularity it starts at", async () => {
+    await runFor(robot.home(), 120_000);
+    // J5 at zero is a wrist singularity
+    const [x, y, z, rx, ry, rz] = robot.Pose;
+
+    await runFor(robot.moveToLinearly([x, y, z - 20, rx, ry + 10, rz]), 30_000);
+    expect(robot.Pose[2]).toBeCloseTo(z - 20, 1);
+    expect(Math.abs(robot.J5.Degrees)).toBeGreaterThan(1);
+  });
+
+  it("should reject a path that leaves a singularity and comes back to it", async () => {
+    await runFor(robot.home(), 120_000);
+
+    expect(() =>
+      robot.planMovePath([
+        { pose: robot.poseOf([0, 0, 0, 0, 20, 0]) },
+        { pose: robot.poseOf([0, 10, 0, 0, 0, 0]) },
+      ])
+    ).toThrow(/wrist singularity/);
+  });
+
+  it("should reject moves into a keep-out zone before moving", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 60, 5]), 30_000);
+    const degrees = [robot.J1, robot.J2, robot.J3].map(
+      (joint) => joint.Degrees
+    );
+    const [, , z] = robot.Pose;
+
+    robot.addKeepOutZone({
+      name: "table",
+      type: "plane",
+      point: [0, 0, z - 5],
+      normal: [0, 0, 1],
+    });
+    await expect(robot.moveByLinearlyXYZ(0, 0, -10)).rejects.toThrow(
+      /keep-out zone "table" with the tool/
+    );
+
+    const target = [20, 15, -10, 30, 45, -20];
+    const [x, y, targetZ] = robot.poseOf(target);
+    robot.addKeepOutZone({
+      name: "fixture",
+      type: "box",
+      min: [x - 10, y - 10, targetZ - 10],
+      max: [x + 10, y + 10, targetZ + 10],
+    });
+    await expect(robot.moveJ({ joints: target })).rejects.toThrow(
+      /keep-out zone "fixture"/
+    );
+    await expect(robot.rotateBy([15, 5, -20, 25, -15, -25])).rejects.toThrow(
+      /keep-out zone "fixture"/
+    );
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(
+      [robot.J1, robot.J2, robot.J3].map((joint) => joint.Degrees)
+    ).toEqual(degrees);
+
+    robot.removeKeepOutZone("fixture");
+    await runFor(robot.moveJ({ joints: target }), 60_000);
+    expect(robot.J1.Degrees).toBeCloseTo(20, 1);
+
+    // Going back to ready is checked too
+    const [readyX, readyY, readyZ] = robot.poseOf([0, 0, 0, 0, 0, 0]);
+    robot.addKeepOutZone({
+      name: "ready",
+      type: "box",
+      min: [readyX - 10, readyY - 10, readyZ - 10],
+      max: [readyX + 10, readyY + 10, readyZ + 10],
+    });
+    await expect(robot.goToReady()).rejects.toThrow(/keep-out zone "ready"/);
+    expect(robot.J1.Degrees).toBeCloseTo(20, 1);
+  });
+
+  it("should reject a move that folds the tool into the base", async () => {
+    await runFor(robot.home(), 120_000);
+    robot.setToolFrame([0, 0, 100, 0, 0, 0]);
+
+    await expect(
+      robot.moveJ({ joints: [0, 108, 38, 0, 40, 0] })
+    ).rejects.toThrow(/makes the base hit the tool \(step \d+ of \d+/);
+    await vi.advanceTimersByTimeAsync(5_000);
+    for (let deviceNum = 0; deviceNum < 6; deviceNum++) {
+      expect(sim.physicalDegrees(deviceNum)).toBeCloseTo(0, 0);
+    }
+  });
+
+  it("should move all joints together with moveJ", async () => {
+    await runFor(robot.home(), 120_000);
+    const target = [20, 15, -10, 30, 45, -20];
+
+    for (const profile of ["trapezoidal", "s-curve"] as const) {
+      const plan = robot.planMoveJ({ joints: target }, profile);
+      expect(plan.duration).toBeGreaterThan(0);
+
+      const startedAt = Date.now();
+      await runFor(robot.moveJ({ joints: target }, profile), 60_000);
+      if (profile === "trapezoidal") {
+        expect((Date.now() - startedAt) / 1000).toBeCloseTo(plan.duration, 0);
+      }
+      await vi.advanceTimersByTimeAsync(5_000);
+      target.forEach((angle, index) => {
+        expect(sim.physicalDegrees(index)).toBeCloseTo(angle, 0);
+      });
+      target.reverse();
+    }
+  });
+
+  it("should move the tool along an arc with moveC", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 60, 5]), 30_000);
+    const [x, y, z, rx, ry, rz] = robot.Pose;
+
+    await runFor(
+      robot.moveC([x + 20, y + 20, z, rx, ry, rz], [x, y + 40, z, rx, ry, rz]),
+      30_000
+    );
+
+    const pose = robot.Pose;
+    expect(pose[0]).toBeCloseTo(x, 0);
+    expect(pose[1]).toBeCloseTo(y + 40, 0);
+    expect(pose[2]).toBeCloseTo(z, 0);
+  });
+
+  it("should pass through blended waypoints in one motion", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 60, 5]), 30_000);
+    const [x, y, z, rx, ry, rz] = robot.Pose;
+
+    await runFor(
+      robot.movePath([
+        { pose: [x + 20, y, z, rx, ry, rz], zone: 5 },
+        { pose: [x + 20, y + 20, z, rx, ry, rz], zone: 5 },
+        { pose: [x, y + 20, z - 10, rx, ry, rz] },
+      ]),
+      30_000
+    );
+
+    const pose = robot.Pose;
+    expect(pose[0]).toBeCloseTo(x, 0);
+    expect(pose[1]).toBeCloseTo(y + 20, 0);
+    expect(pose[2]).toBeCloseTo(z - 10, 0);
+  });
+});
+
+describe("Robot with a joint encoder", () => {
+  const original = JOINT_CONFIGS.J1;
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+  // Where J1 physically is, from where homing left it
+  let j1: () => number;
+  // J1 loses this many degrees of steps
+  const slip = (degrees: number) =>
+    sim.loseSteps(0, (degrees / 360) * original.STEPS_PER_REV);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    JOINT_CONFIGS.J1 = {
+      ...original,
+      ENCODER: { PIN_A: 3, PIN_B: 4, COUNTS_PER_REV: 4000, TOLERANCE: 0.5 },
+    };
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+    await runFor(robot.home(), 120_000);
+    const zero = sim.physicalDegrees(0);
+    j1 = () => sim.physicalDegrees(0) - zero;
+  });
+
+  afterEach(() => {
+    JOINT_CONFIGS.J1 = original;
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  it("should check every move against the encoder", async () => {
+    await runFor(robot.rotateBy([10, 0, 0, 0, 0, 0]), 30_000);
+    expect(await robot.J1.verifyPosition()).toBeCloseTo(10, 1);
+    // Within the tolerance
+    slip(0.3);
+    await runFor(robot.rotateBy([-10, 0, 0, 0, 0, 0]), 30_000);
+    expect(robot.State).toBe("Idle");
+
+    slip(-2);
+    await expect(robot.J1.verifyPosition()).rejects.toThrow(StepLossError);
+    const move = robot.rotateBy([5, 0, 0, 0, 0, 0]);
+    // Rejects once the joints have arrived
+    move.catch(() => {});
+    await vi.advanceTimersByTimeAsync(10_000);
+    await expect(move).rejects.toThrow(
+      /J1 lost steps: at 3\.3[0-9] degrees by its encoder, 5\.00 by its steps/
+    );
+    expect(robot.State).toBe("Faulted");
+    expect(robot.Homed).toBe(false);
+  });
+
+  it("should catch lost steps while streaming and re-sync", async () => {
+    robot.stepLossRecovery = "resync";
+    const move = robot.moveJ({ joints: [40, 0, 0, 0, 0, 0] });
+    move.catch(() => {});
+    await vi.advanceTimersByTimeAsync(1_000);
+    slip(-3);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    const error = await move.catch((error) => error);
+    expect(error).toBeInstanceOf(MotionSegmentError);
+    expect(error.cause).toBeInstanceOf(StepLossError);
+    // Caught long before the last setpoint
+    expect(error.setpoint).toBeLessThan(error.setpoints / 2);
+    expect(robot.State).toBe("Idle");
+
+    // The correction move put J1 back where its steps said it was
+    await vi.advanceTimersByTimeAsync(5_000);
+    const degrees = await robot.J1.verifyPosition();
+    expect(j1()).toBeCloseTo(degrees, 1);
+    await runFor(robot.moveJ({ joints: [20, 0, 0, 0, 0, 0] }), 30_000);
+    expect(j1()).toBeCloseTo(20, 1);
+  });
+});
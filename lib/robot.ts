@@ -1,28 +1,125 @@
-import Joint from "./Joint.ts";
+import Joint, { StepLossError } from "./Joint.ts";
+import JointGroup from "./JointGroup.ts";
 import { JOINT_CONFIGS } from "../config.ts";
-import { createKinematics, Kinematics } from "./kinematics.ts";
-import { getCoordinatedSpeeds } from "./utils.ts";
+import {
+  createKinematics,
+  Kinematics,
+  type IKConfiguration,
+  type SingularityType,
+} from "./kinematics.ts";
+import {
+  createArc,
+  createBlendedPath,
+  interpolatePose,
+  type Waypoint,
+} from "./path.ts";
+import {
+  planJointMove,
+  sampleJointMove,
+  type JointMovePlan,
+  type MotionProfile,
+} from "./planner.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { Jog } from "./jog.ts";
+import { SelfCollisionChecker } from "./collision.ts";
+import { MotionQueue } from "./motion.ts";
+import { createTrajectory, type Trajectory } from "./trajectory.ts";
+import { ToolManager } from "./tools.ts";
+import { FrameManager } from "./frames.ts";
+import {
+  findZoneViolation,
+  validateZone,
+  type KeepOutZone,
+} from "./workspace.ts";
+import {
+  canTransition,
+  ensureAccepted,
+  RobotStateError,
+  type RobotState,
+} from "./state.ts";
+import EventEmitter from "events";
 import pino from "pino";
 
-type TPose = [number, number, number, number, number, number]; // [x, y, z, rx, ry, rz]
-
-// Linear interpolation between two values
-function lerp(a: number, b: number, t: number): number {
-  return a + (b - a) * t;
-}
-
-// Interpolate between two poses
-function interpolatePose(p1: TPose, p2: TPose, t: number): TPose {
-  return p1.map((val, i) => lerp(val, p2[i], t)) as TPose;
+export type TPose = [number, number, number, number, number, number]; // [x, y, z, rx, ry, rz]
+
+/**
+ * Joint angles, or a pose in the base frame or a user frame
+ */
+export type MoveJTarget =
+  | { joints: number[] }
+  | { pose: TPose; frame?: string };
+
+/**
+ * A move refused while planning it, before anything moved, e.g. out of range, out of reach,
+ * near a singularity or into a keep-out zone. The cause is what the planning threw.
+ */
+export class MotionPlanningError extends Error {
+  constructor(cause: Error) {
+    super(cause.message, { cause });
+    this.name = "MotionPlanningError";
+  }
 }
 
-export class Robot {
+/**
+ * Drives the six joints as one arm.
+ *
+ * Every command goes through the RobotState: it is refused with a RobotStateError in a
+ * state it is not accepted in, e.g. a move while homing or paused. Emits "state" with the
+ * new and the previous state on every change.
+ */
+export class Robot extends EventEmitter {
+  private state: RobotState = "Unhomed";
   private instances: Joint[] = [];
   private kinematics: Kinematics;
+  private tool: TPose = [0, 0, 0, 0, 0, 0];
   private readonly CONTROL_LOOP_FREQUENCY_HZ = 50; // Example
   private readonly TIME_STEP_MS = 1000 / this.CONTROL_LOOP_FREQUENCY_HZ;
-  private moveLIntervalId: NodeJS.Timeout;
+  // Samples used to estimate how far each joint travels along a Cartesian path
+  private readonly PATH_ESTIMATE_SAMPLES = 20;
+  // Largest joint change in degrees between the samples a joint space move is checked at
+  private readonly MAX_CHECK_STEP_DEGREES = 1;
+  private keepOutZones: KeepOutZone[] = [];
+  // Moves J1 to J6 together, homing still moves them one by one
+  private group: JointGroup;
+  // Plays every move on the joints
+  private queue: MotionQueue;
+  // Why homing was stopped for good, by halt(), estop(), fault() or disconnect()
+  private interruption: Error | undefined;
+  private faultReason: string | undefined;
+  private command: string | undefined;
   private logger: pino.Logger;
+  /**
+   * What a linear move does when its path passes near a singularity, other than straight
+   * away from one it starts at, "reject" throws before anything moves, "warn" only logs it
+   */
+  public singularityHandling: "reject" | "warn" = "reject";
+  /**
+   * What a move does when a joint's encoder catches it losing steps, "fault" faults the
+   * robot so it has to be homed again, "resync" takes the encoder's word for where the joint
+   * is and moves it back to where its steps said it was. The move fails either way.
+   */
+  public stepLossRecovery: "fault" | "resync" = "fault";
+  /**
+   * Fraction (0 to 1] of the joints' MAX_SPEED that moves may use
+   */
+  public speedScale = 1;
+  /**
+   * Jogging by hand, from calls or a handwheel
+   */
+  public readonly jog: Jog;
+  /**
+   * Checks every planned configuration for links running into each other, its link radii
+   * can be changed
+   */
+  public readonly collisionChecker: SelfCollisionChecker;
+  /**
+   * The named tools, selecting one sets the tool frame
+   */
+  public readonly tools: ToolManager;
+  /**
+   * The user frames poses can be given in
+   */
+  public readonly frames = new FrameManager();
 
   get J1(): Joint {
     return this.instances[0];
@@ -43,23 +140,134 @@ export class Robot {
     return this.instances[5];
   }
 
+  get State(): RobotState {
+    return this.state;
+  }
+
+  /**
+   * The move or homing running, e.g. "moveJ", undefined while there is none.
+   */
+  get Command(): string | undefined {
+    return this.command;
+  }
+
+  /**
+   * Why the robot stopped trusting the board, undefined while it is fine.
+   */
+  get Fault(): string | undefined {
+    return this.faultReason;
+  }
+
   get Homed(): boolean {
     return this.instances.every((joint) => joint.Homed);
   }
 
   get Pose(): TPose {
-    const { x, y, z, rx, ry, rz } = Kinematics.extractHomogeneousMatrix(
-      this.kinematics.forwardKinematics(
-        this.instances.map((joint) => joint.Degrees)
-      )
+    return this.poseOf(this.instances.map((joint) => joint.Degrees));
+  }
+
+  /**
+   * The tool center point relative to the flange [x, y, z, rx, ry, rz], rotations in degrees.
+   */
+  get Tool(): TPose {
+    return [...this.tool];
+  }
+
+  /**
+   * The inverse kinematics branch the arm is on.
+   */
+  get Configuration(): IKConfiguration | undefined {
+    return this.kinematics.configurationOf(
+      this.instances.map((joint) => joint.Degrees)
     );
-    return [x, y, z, rx, ry, rz];
   }
 
-  constructor() {
+  /**
+   * @param io - The board the joints are wired to, either a Firmata
+   * connection or a SimulatedFirmata.
+   */
+  constructor(io: FirmataType) {
+    super();
     this.initializeLogger();
-    this.instances = Joint.createAllJoints();
+    this.instances = Joint.createAllJoints(io);
+    this.instances.forEach((joint) =>
+      joint.setMoveGuard(() => this.ensureJointsMayMove())
+    );
+    this.group = new JointGroup(io, this.instances);
+    this.queue = new MotionQueue(this.instances, { group: this.group });
     this.kinematics = createKinematics();
+    this.jog = new Jog(this);
+    this.collisionChecker = new SelfCollisionChecker(this.kinematics);
+    this.tools = new ToolManager(this);
+  }
+
+  /**
+   * The volumes every move is checked against before it starts, in the base frame.
+   */
+  get KeepOutZones(): KeepOutZone[] {
+    return [...this.keepOutZones];
+  }
+
+  /**
+   * Adds a volume the tool and the wrist center must stay out of, replacing the zone with
+   * the same name.
+   */
+  public addKeepOutZone(zone: KeepOutZone) {
+    validateZone(zone);
+    this.keepOutZones = [
+      ...this.keepOutZones.filter((existing) => existing.name !== zone.name),
+      zone,
+    ];
+  }
+
+  public removeKeepOutZone(name: string) {
+    this.keepOutZones = this.keepOutZones.filter((zone) => zone.name !== name);
+  }
+
+  /**
+   * The tool pose for a set of joint angles, with the current tool frame.
+   * @param jointAngles Joint angles in degrees (J1 to J6).
+   */
+  public poseOf(jointAngles: number[]): TPose {
+    const { x, y, z, rx, ry, rz } = Kinematics.extractHomogeneousMatrix(
+      this.kinematics.forwardKinematics(jointAngles)
+    );
+    return [x, y, z, rx, ry, rz];
+  }
+
+  /**
+   * The current tool pose relative to a user frame.
+   * @param frame The user frame, "base" gives the same as Pose.
+   */
+  public poseIn(frame: string): TPose {
+    return this.frames.fromBase(this.Pose, frame);
+  }
+
+  /**
+   * The 4x4 transformation from the base to the flange for a set of joint angles, ignoring
+   * the tool frame.
+   * @param jointAngles Joint angles in degrees (J1 to J6).
+   */
+  public flangeFrameOf(jointAngles: number[]): number[][] {
+    return this.kinematics.flangeFrame(jointAngles);
+  }
+
+  /**
+   * Sets the tool center point relative to the flange.
+   * @param tool The offset [x, y, z, rx, ry, rz], rotations in degrees.
+   */
+  public setToolFrame(tool: TPose) {
+    this.tool = [...tool];
+    const [x, y, z, rx, ry, rz] = tool;
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    this.kinematics.setToolFrame(
+      x,
+      y,
+      z,
+      toRadians(rx),
+      toRadians(ry),
+      toRadians(rz)
+    );
   }
 
   /**
@@ -78,36 +286,139 @@ export class Robot {
    * Moves the robot linearly to the target pose in Cartesian space.
    * The robot will follow a smooth trajectory by streaming joint commands.
    * @param target The target pose [x, y, z, rx, ry, rz].
+   * @param frame The user frame the target is in, "base" for the robot base.
    */
-  async moveToLinearly(target: TPose): Promise<void> {
+  async moveToLinearly(target: TPose, frame = "base"): Promise<void> {
+    ensureAccepted("move", this.state);
+    await this.followTrajectory(
+      this.plan(() => this.planMoveToLinearly(target, frame))
+    );
+  }
+
+  /**
+   * Plans moveToLinearly() from the current joint angles without moving, e.g. to try a new
+   * target before running it on the arm.
+   * @param target The target pose [x, y, z, rx, ry, rz].
+   * @param frame The user frame the target is in, "base" for the robot base.
+   * @returns The trajectory the joints would follow, with its peak velocities and
+   * accelerations against the joint limits.
+   * @throws If the move is out of reach, out of range, unsafe or passes near a singularity.
+   */
+  planMoveToLinearly(target: TPose, frame = "base"): Trajectory {
     const currentPose = this.Pose;
+    const targetPose = this.frames.toBase(target, frame);
+    return this.planCartesianPath("moveToLinearly", (t) =>
+      interpolatePose(currentPose, targetPose, t)
+    );
+  }
+
+  /**
+   * Moves the tool along the circular arc from the current pose through the via pose to the
+   * target pose. The orientation turns from the current one to the target's, the via pose's
+   * orientation is not used.
+   * @param via A pose the arc passes through [x, y, z, rx, ry, rz].
+   * @param target The target pose [x, y, z, rx, ry, rz].
+   * @param frame The user frame via and target are in, "base" for the robot base.
+   */
+  async moveC(via: TPose, target: TPose, frame = "base"): Promise<void> {
+    ensureAccepted("move", this.state);
+    await this.followTrajectory(
+      this.plan(() => this.planMoveC(via, target, frame))
+    );
+  }
+
+  /**
+   * Plans moveC() from the current joint angles without moving.
+   * @returns The trajectory the joints would follow.
+   */
+  planMoveC(via: TPose, target: TPose, frame = "base"): Trajectory {
+    const currentPose = this.Pose;
+    const viaPose = this.frames.toBase(via, frame);
+    const targetPose = this.frames.toBase(target, frame);
+    const arc = createArc(
+      [currentPose[0], currentPose[1], currentPose[2]],
+      [viaPose[0], viaPose[1], viaPose[2]],
+      [targetPose[0], targetPose[1], targetPose[2]]
+    );
+    this.logger.info(
+      `Arc of radius ${arc.radius.toFixed(2)} sweeping ${(
+        (arc.sweep * 180) /
+        Math.PI
+      ).toFixed(2)} degrees`
+    );
+    return this.planCartesianPath("moveC", (t) => {
+      const [, , , rx, ry, rz] = interpolatePose(currentPose, targetPose, t);
+      return [...arc.pointAt(t), rx, ry, rz];
+    });
+  }
+
+  /**
+   * Moves the tool through a sequence of waypoints in one continuous motion. Corners are rounded
+   * within each waypoint's zone, so the arm keeps moving instead of stopping at every point.
+   * @param waypoints The poses to pass by with their zone radii, the last one is the target.
+   */
+  async movePath(waypoints: Waypoint[]): Promise<void> {
+    ensureAccepted("move", this.state);
+    await this.followTrajectory(this.plan(() => this.planMovePath(waypoints)));
+  }
 
-    // 1. Calculate start and end joint angles using inverse kinematics
-    const startJointAngles = this.kinematics.inverseKinematics(...currentPose);
-    const endJointAngles = this.kinematics.inverseKinematics(...target);
-
-    if (
-      !startJointAngles ||
-      !endJointAngles ||
-      startJointAngles.length !== this.instances.length
-    ) {
-      console.error(
-        "Inverse kinematics failed to find valid joint configurations."
+  /**
+   * Plans movePath() from the current joint angles without moving.
+   * @returns The trajectory the joints would follow.
+   */
+  planMovePath(waypoints: Waypoint[]): Trajectory {
+    const path = createBlendedPath(this.Pose, waypoints);
+    this.logger.info(
+      `Path of ${waypoints.length} waypoints, ${path.length.toFixed(2)} mm long`
+    );
+    return this.planCartesianPath(
+      "movePath",
+      path.poseAt,
+      this.PATH_ESTIMATE_SAMPLES * path.pieces
+    );
+  }
+
+  /**
+   * Plans a Cartesian path, solving and checking the joint angles for every control loop step.
+   * Nothing moves, followTrajectory() streams them.
+   * @param command The move it is for, e.g. "moveC".
+   * @param poseAt The pose at a fraction (0.0 to 1.0) of the path, from the current pose to the target.
+   * @param estimateSamples How many samples to estimate the joint travel from.
+   */
+  private planCartesianPath(
+    command: string,
+    poseAt: (t: number) => TPose,
+    estimateSamples = this.PATH_ESTIMATE_SAMPLES
+  ): Trajectory {
+    // 1. Start from where the joints are, and follow the solution on the same branch along the path
+    const startJointAngles = this.instances.map((joint) => joint.Degrees);
+
+    // 2. Determine the minimum total time required based on joint velocity limits
+    // The path is sampled, as joints may travel further than the difference between start and end
+    const jointTravel = startJointAngles.map(() => 0);
+    let previousJointAngles = startJointAngles;
+    for (let i = 1; i <= estimateSamples; i++) {
+      const jointAngles = this.kinematics.inverseKinematicsNearest(
+        ...poseAt(i / estimateSamples),
+        previousJointAngles
       );
-      throw new Error("Invalid IK solution or mismatch in joint count.");
+      jointAngles.forEach((angle, j) => {
+        jointTravel[j] += Math.abs(angle - previousJointAngles[j]);
+      });
+      previousJointAngles = jointAngles;
     }
 
-    // 2. Determine the minimum total time required based on joint velocity limits
     let maxRequiredTime = 0; // The time required for the slowest joint to complete its travel
     for (let j = 0; j < this.instances.length; j++) {
-      const angleDiff = Math.abs(endJointAngles[j] - startJointAngles[j]);
-      const maxVelocity = JOINT_CONFIGS[`J${j + 1}`].MAX_SPEED;
+      const angleDiff = jointTravel[j];
+      const maxVelocity =
+        JOINT_CONFIGS[`J${j + 1}`].MAX_SPEED * this.speedScale;
 
       if (maxVelocity === 0 && angleDiff > 0) {
-        console.warn(
+        this.logger.warn(
           `Joint ${j} needs to move (${angleDiff.toFixed(
             2
-          )} rad) but has 0 max velocity.`
+          )} degrees) but has 0 max velocity.`
         );
         throw new Error(
           `Joint ${j} cannot move to target due to zero max velocity.`
@@ -126,7 +437,7 @@ export class Robot {
     // This prevents dividing by zero for numSteps if move is zero-length,
     // and provides a reasonable duration for very small moves.
     const totalMoveTimeSeconds = Math.max(maxRequiredTime, 0.5); // Minimum 0.5 seconds for any move
-    console.log(
+    this.logger.debug(
       `Calculated total move time: ${totalMoveTimeSeconds.toFixed(2)} seconds.`
     );
 
@@ -134,95 +445,92 @@ export class Robot {
     const numSteps = Math.ceil(
       totalMoveTimeSeconds * this.CONTROL_LOOP_FREQUENCY_HZ
     );
-    if (numSteps === 0) {
-      console.log(
-        "No significant movement required (zero steps calculated), robot likely at target or very close."
-      );
-      return;
-    }
-    console.log(
+    this.logger.debug(
       `Generating ${numSteps} trajectory steps for a ${totalMoveTimeSeconds.toFixed(
         2
       )}s move.`
     );
 
-    // 4. Generate the complete joint trajectories (angles for each joint at each time step)
-    const jointTrajectories: number[][] = Array(this.instances.length)
-      .fill(null)
-      .map(() => []);
+    // 4. Generate the complete joint trajectory (angles for each joint at each time step)
+    const setpoints: number[][] = [];
 
+    let previousStepJointAngles = startJointAngles;
+    const warnedSingularities = new Set<SingularityType>();
+    // Singularities the arm starts at, with the furthest it has got from each since. Moving
+    // away is fine, turning back or coming near again once it got clear is not
+    const leaving = new Map<SingularityType, number>();
     for (let i = 0; i <= numSteps; i++) {
       const t = i / numSteps; // Normalized time (0.0 to 1.0)
-      const interpolatedPose = interpolatePose(currentPose, target, t);
-      const currentStepJointAngles = this.kinematics.inverseKinematics(
-        ...interpolatedPose
+      const interpolatedPose = poseAt(t);
+      // Each step follows on from the previous one, so the arm never swaps branches mid path
+      const currentStepJointAngles = this.kinematics.inverseKinematicsNearest(
+        ...interpolatedPose,
+        previousStepJointAngles
       );
+      previousStepJointAngles = currentStepJointAngles;
 
-      // Basic check to ensure IK returns valid angles for all joints
-      if (
-        !currentStepJointAngles ||
-        currentStepJointAngles.length !== this.instances.length
-      ) {
-        console.error(
-          `IK failed for interpolated pose at t=${t}. Aborting move.`
-        );
-        throw new Error("IK solution invalid during trajectory generation.");
+      const singularities = this.kinematics.singularities(
+        currentStepJointAngles
+      );
+      for (const type of leaving.keys()) {
+        if (!singularities.some((singularity) => singularity.type === type)) {
+          leaving.delete(type);
+        }
+      }
+      for (const { type, distance } of singularities) {
+        if (i === 0) {
+          leaving.set(type, distance);
+        }
+        const furthest = leaving.get(type) ?? Infinity;
+        if (
+          this.singularityHandling === "reject" &&
+          // Tolerating what solving the pose again changes
+          distance < furthest - 1e-6
+        ) {
+          throw new Error(
+            `Path passes near a ${type} singularity at t=${t.toFixed(
+              3
+            )} (${distance.toFixed(2)} away). Aborting move.`
+          );
+        }
+        if (leaving.has(type)) {
+          leaving.set(type, Math.max(furthest, distance));
+        }
+        if (!warnedSingularities.has(type)) {
+          warnedSingularities.add(type);
+          this.logger.warn(
+            `Path passes near a ${type} singularity at t=${t.toFixed(3)}`
+          );
+        }
       }
 
-      this.instances.forEach((_, jointIndex) => {
-        jointTrajectories[jointIndex].push(currentStepJointAngles[jointIndex]);
-      });
-    }
+      this.ensureInRange(currentStepJointAngles, `step ${i} of ${numSteps}`);
+      this.ensureSafeConfiguration(
+        currentStepJointAngles,
+        `step ${i} of ${numSteps}`
+      );
 
-    // 5. Execute the trajectory by streaming commands using setInterval
-    let currentStep = 0;
-    const movePromise = new Promise<void>((resolve) => {
-      this.moveLIntervalId = setInterval(() => {
-        // If all steps have been processed, clear interval and resolve
-        if (currentStep > numSteps) {
-          clearInterval(this.moveLIntervalId);
-          resolve();
-          return;
-        }
+      setpoints.push(currentStepJointAngles);
+    }
 
-        // Send commands for the current step to each joint
-        this.instances.forEach((joint, jointIndex) => {
-          const targetAngle = jointTrajectories[jointIndex][currentStep];
-          if (targetAngle !== undefined) {
-            // Crucial: Fire and forget. Send the command but do NOT await the promise.
-            // AccelStepper on the Arduino handles the actual movement asynchronously.
-            // The promise resolves when the command is sent to Firmata.js.
-            joint.rotateTo(targetAngle).catch((error) => {
-              console.error(
-                `Error sending command to Joint ${joint.Name} at step ${currentStep}:`,
-                error
-              );
-              // You might want to reject the main movePromise here or handle error differently
-              // For robust systems, this would trigger an emergency stop or error state
-            });
-          }
-        });
-
-        currentStep++;
-        // Optional: Log progress to see commands being sent
-        // if (currentStep % (this.CONTROL_LOOP_FREQUENCY_HZ * 1) === 0 || currentStep === numSteps + 1) {
-        //     console.log(`> Sent commands for step ${currentStep - 1}/${numSteps}`);
-        // }
-      }, this.TIME_STEP_MS);
-    });
+    return createTrajectory(
+      command,
+      setpoints,
+      this.TIME_STEP_MS / 1000,
+      (jointAngles) => this.poseOf(jointAngles)
+    );
+  }
 
-    // Wait for all trajectory commands to be *sent* from the laptop to the Arduino.
-    // This does NOT guarantee the robot has physically stopped or settled.
-    await movePromise;
-    console.log("All trajectory commands have been sent to Arduino.");
-
-    // Optional: Add a buffer delay to allow the robot to physically complete its last moves
-    // and settle. This is important before starting a new motion or relying on robot being static.
-    await new Promise((resolve) =>
-      setTimeout(resolve, totalMoveTimeSeconds * 1000 + 500)
-    ); // Add 500ms buffer after commands sent
-    console.log(
-      "Robot move operation completed (commands sent and buffer time elapsed)."
+  /**
+   * Streams a planned trajectory through the motion queue, which resolves once the joints
+   * arrive.
+   */
+  private async followTrajectory(trajectory: Trajectory) {
+    await this.executeMove(trajectory.command, () =>
+      this.queue.push({
+        setpoints: trajectory.samples.map((sample) => sample.joints),
+        periodMs: trajectory.period * 1000,
+      })
     );
   }
 
@@ -252,37 +560,411 @@ export class Robot {
   }
 
   async rotateBy(deltaAngles: number[]) {
-    const speeds = getCoordinatedSpeeds(deltaAngles);
-    await Promise.all(
-      speeds.map((speed, index) => this.instances[index].setSpeed(speed))
+    ensureAccepted("move", this.state);
+    const start = this.instances.map((joint) => joint.Degrees);
+    const target = start.map(
+      (angle, index) => angle + (deltaAngles[index] ?? 0)
+    );
+    this.plan(() => this.ensureJointMoveIsSafe(start, target));
+    // The group picks speeds so every joint arrives together
+    await this.executeMove("rotateBy", () =>
+      this.queue.push({ setpoints: [target], periodMs: this.TIME_STEP_MS })
+    );
+    this.logger.info(`Joints rotated by ${deltaAngles.join(", ")} degrees.`);
+  }
+
+  /**
+   * Streams joint angles to the joints one per period, e.g. a recorded trajectory. Every
+   * setpoint is checked before anything moves.
+   * @param setpoints Joint angles in degrees (J1 to J6), the joints have to be at the first
+   * one already.
+   * @param periodMs Time between setpoints in milliseconds.
+   */
+  async followJointPath(setpoints: number[][], periodMs: number) {
+    ensureAccepted("move", this.state);
+    this.plan(() => this.checkJointPath(setpoints, periodMs));
+    await this.executeMove("followJointPath", () =>
+      this.queue.push({ setpoints, periodMs })
     );
-    await Promise.all(
-      deltaAngles.map((angle, index) =>
-        this.instances[index].rotateBy(angle).then(() => {
-          this.logger.info(
-            `Joint ${this.instances[index].Name} rotated by ${angle} degrees.`
+  }
+
+  private checkJointPath(setpoints: number[][], periodMs: number) {
+    if (setpoints.length === 0) {
+      throw new Error("A joint path needs at least 1 setpoint.");
+    }
+    if (!(periodMs > 0)) {
+      throw new Error(`Period must be positive, got ${periodMs}.`);
+    }
+    const start = this.instances.map((joint) => joint.Degrees);
+    const offset = Math.max(
+      ...setpoints[0].map((angle, index) => Math.abs(angle - start[index]))
+    );
+    if (offset > this.MAX_CHECK_STEP_DEGREES) {
+      throw new Error(
+        `The joints are ${offset.toFixed(
+          2
+        )} degrees away from the first setpoint, move there first.`
+      );
+    }
+    setpoints.forEach((setpoint, i) => {
+      const where = `setpoint ${i + 1} of ${setpoints.length}`;
+      if (setpoint.length !== this.instances.length) {
+        throw new Error(
+          `Expected ${this.instances.length} joint angles, got ${setpoint.length} (${where}).`
+        );
+      }
+      this.ensureInRange(setpoint, where);
+      this.ensureSafeConfiguration(setpoint, where);
+    });
+  }
+
+  /**
+   * Runs the planning of a move, before anything moves.
+   * @throws MotionPlanningError with what the planning threw.
+   */
+  private plan<T>(planning: () => T): T {
+    try {
+      return planning();
+    } catch (error) {
+      throw new MotionPlanningError(error);
+    }
+  }
+
+  /**
+   * Runs a planned move in the Moving state, and goes back to Idle once it is done or has
+   * failed.
+   * @param command The move it is, for Command.
+   */
+  private async executeMove(command: string, move: () => Promise<void>) {
+    ensureAccepted("move", this.state);
+    this.interruption = undefined;
+    this.command = command;
+    this.setState("Moving");
+    try {
+      await move();
+    } catch (error) {
+      if (error.cause instanceof StepLossError) {
+        await this.recoverFromStepLoss(error.cause);
+      }
+      throw error;
+    } finally {
+      this.command = undefined;
+      // Paused just as it arrived, there is nothing left to resume
+      if (this.state === "Moving" || this.state === "Paused") {
+        this.setState("Idle");
+      }
+    }
+  }
+
+  /**
+   * Plans a synchronized joint space move from the current joint angles, without moving.
+   * @param target Joint angles, or a pose in the base or a user frame solved on the current
+   * inverse kinematics branch.
+   * @param profile The shape of the velocity profile.
+   * @returns The plan, including its duration in seconds.
+   */
+  planMoveJ(
+    target: MoveJTarget,
+    profile: MotionProfile = "trapezoidal"
+  ): JointMovePlan {
+    const start = this.instances.map((joint) => joint.Degrees);
+    const targetJoints =
+      "joints" in target
+        ? target.joints
+        : this.kinematics.inverseKinematicsNearest(
+            ...this.frames.toBase(target.pose, target.frame ?? "base"),
+            start
           );
-        })
-      )
+    if (targetJoints.length !== this.instances.length) {
+      throw new Error(
+        `Expected ${this.instances.length} joint angles, got ${targetJoints.length}.`
+      );
+    }
+    this.ensureJointMoveIsSafe(start, targetJoints);
+    return planJointMove(start, targetJoints, profile, this.speedScale);
+  }
+
+  /**
+   * Checks a move that interpolates in joint space, sampled finely enough that no joint
+   * turns more than MAX_CHECK_STEP_DEGREES between samples.
+   */
+  private ensureJointMoveIsSafe(start: number[], target: number[]) {
+    const largestChange = Math.max(
+      ...target.map((angle, index) => Math.abs(angle - start[index]))
+    );
+    const samples = Math.max(
+      this.PATH_ESTIMATE_SAMPLES,
+      Math.ceil(largestChange / this.MAX_CHECK_STEP_DEGREES)
+    );
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      this.ensureSafeConfiguration(
+        start.map((angle, index) => angle + (target[index] - angle) * t),
+        `step ${i} of ${samples}`
+      );
+    }
+  }
+
+  /**
+   * @param jointAngles Joint angles in degrees (J1 to J6) along a planned move.
+   * @param where Where along the move they are, for the error message.
+   * @throws If a joint is outside its RANGE.
+   */
+  private ensureInRange(jointAngles: number[], where: string) {
+    this.instances.forEach((joint, index) => {
+      const [min, max] = JOINT_CONFIGS[joint.Name].RANGE;
+      if (jointAngles[index] < min || jointAngles[index] > max) {
+        throw new Error(
+          `${joint.Name} at ${jointAngles[index].toFixed(
+            2
+          )} degrees is out of range [${min}, ${max}] (${where}). Aborting move.`
+        );
+      }
+    });
+  }
+
+  /**
+   * @param jointAngles Joint angles in degrees (J1 to J6) along a planned move.
+   * @param where Where along the move they are, for the error message.
+   * @throws If the arm would hit itself or enter a keep-out zone.
+   */
+  private ensureSafeConfiguration(jointAngles: number[], where: string) {
+    const collision = this.collisionChecker.check(jointAngles);
+    if (collision) {
+      throw new Error(
+        `Move makes the ${collision.links[0]} hit the ${
+          collision.links[1]
+        } (${where}, ${collision.distance.toFixed(1)} mm apart). Aborting move.`
+      );
+    }
+    this.ensureOutsideKeepOutZones(jointAngles, where);
+  }
+
+  /**
+   * @param jointAngles Joint angles in degrees (J1 to J6) along a planned move.
+   * @param where Where along the move they are, for the error message.
+   * @throws If the tool or the wrist center is inside a keep-out zone.
+   */
+  private ensureOutsideKeepOutZones(jointAngles: number[], where: string) {
+    if (this.keepOutZones.length === 0) return;
+    const [x, y, z] = this.poseOf(jointAngles);
+    const violation = findZoneViolation(
+      {
+        tool: [x, y, z],
+        "wrist center": this.kinematics.wristCenter(jointAngles),
+      },
+      this.keepOutZones
     );
+    if (violation) {
+      throw new Error(
+        `Move enters keep-out zone "${violation.zone.name}" with the ${
+          violation.probe
+        } at [${violation.point
+          .map((value) => value.toFixed(1))
+          .join(", ")}] (${where}). Aborting move.`
+      );
+    }
+  }
+
+  /**
+   * Moves every joint to the target so they all start and stop together.
+   * @param target Joint angles, or a pose in the base or a user frame solved on the current
+   * inverse kinematics branch.
+   * @param profile The shape of the velocity profile.
+   * @returns The plan that was executed.
+   */
+  async moveJ(
+    target: MoveJTarget,
+    profile: MotionProfile = "trapezoidal"
+  ): Promise<JointMovePlan> {
+    ensureAccepted("move", this.state);
+    const plan = this.plan(() => this.planMoveJ(target, profile));
+    this.logger.info(
+      `Planned ${profile} joint move taking ${plan.duration.toFixed(2)} seconds`
+    );
+    if (plan.duration === 0) return plan;
+
+    // The group moves at constant speeds, so the profile is streamed like a linear move
+    const numSteps = Math.ceil(plan.duration * this.CONTROL_LOOP_FREQUENCY_HZ);
+    const setpoints: number[][] = [];
+    for (let i = 0; i <= numSteps; i++) {
+      setpoints.push(sampleJointMove(plan, (i / numSteps) * plan.duration));
+    }
+    await this.executeMove("moveJ", () =>
+      this.queue.push({ setpoints, periodMs: this.TIME_STEP_MS })
+    );
+    return plan;
+  }
+
+  private async recoverFromStepLoss(stepLoss: StepLossError) {
+    if (this.stepLossRecovery === "fault") {
+      this.fault(stepLoss.message);
+      return;
+    }
+    this.logger.warn(`${stepLoss.message} Re-syncing to the encoder.`);
+    try {
+      const joint = this.instances.find(
+        (joint) => joint.Name === stepLoss.joint
+      );
+      await joint.resync(true);
+    } catch (error) {
+      this.fault(`${stepLoss.message} Re-syncing failed: ${error.message}`);
+    }
   }
 
+  /**
+   * Homes J1 to J3 and then J4 to J6 against their home switches.
+   * @throws If a joint did not find its switch, the robot stays Unhomed.
+   */
   public async home() {
+    ensureAccepted("home", this.state);
+    this.interruption = undefined;
+    this.command = "home";
+    this.setState("Homing");
     const first = this.instances.slice(0, 3);
     const last = this.instances.slice(3);
 
-    await Promise.all(first.map((joint) => joint.home()));
-    await Promise.all(last.map((joint) => joint.home()));
+    try {
+      await Promise.all(first.map((joint) => joint.home()));
+      await Promise.all(last.map((joint) => joint.home()));
+    } catch (error) {
+      if (this.state === "Homing") {
+        this.setState("Unhomed");
+      }
+      throw error;
+    } finally {
+      this.command = undefined;
+    }
+    if (this.interruption) throw this.interruption;
+    this.setState("Idle");
   }
 
+  /**
+   * Moves every joint to zero with moveJ, checked like any other move.
+   */
   public async goToReady() {
-    return await Joint.goToReadyAll();
+    await this.moveJ({ joints: this.instances.map(() => 0) });
+  }
+
+  /**
+   * Stops the move in progress, it continues from where it stopped on resume().
+   */
+  public async pause() {
+    ensureAccepted("pause", this.state);
+    this.setState("Paused");
+    await this.queue.pause();
+  }
+
+  public resume() {
+    ensureAccepted("resume", this.state);
+    this.setState("Moving");
+    this.queue.resume();
   }
 
+  /**
+   * Stops every joint. A move, running or paused, is rejected and the robot is Idle again,
+   * halting homing leaves it Unhomed.
+   */
   public async halt() {
-    if (this.moveLIntervalId !== undefined) {
-      clearInterval(this.moveLIntervalId);
+    ensureAccepted("halt", this.state);
+    if (this.state === "Homing") {
+      this.interrupt(new Error("Homing halted."));
+      this.setState("Unhomed");
+    } else if (this.state === "Moving" || this.state === "Paused") {
+      this.interrupt(new Error("Move halted."));
+      this.setState("Idle");
+    }
+    await Promise.all(this.instances.map((joint) => joint.stop()));
+  }
+
+  /**
+   * Stops every joint and refuses to move again until reset(). Whatever is running is
+   * rejected.
+   */
+  public async estop() {
+    // Nothing can move without the board
+    if (this.state === "Disconnected") return;
+    this.logger.error("Emergency stop");
+    this.interrupt(new Error("Emergency stop."));
+    this.setState("EStopped");
+    await Promise.all(this.instances.map((joint) => joint.stop()));
+  }
+
+  /**
+   * Clears a fault or an emergency stop. The joints have to be homed again after a fault,
+   * after an emergency stop they still know where they are.
+   */
+  public reset() {
+    ensureAccepted("reset", this.state);
+    this.faultReason = undefined;
+    this.setState(this.state === "EStopped" && this.Homed ? "Idle" : "Unhomed");
+  }
+
+  /**
+   * Puts the robot in a safe state when it can no longer trust the board: streaming stops,
+   * every joint forgets where it is and whatever was waiting for the board fails.
+   * @param reason Why, e.g. a joint lost steps.
+   */
+  public fault(reason: string) {
+    // Already given up on the board
+    if (this.state === "Disconnected") return;
+    this.giveUp(reason, "Faulted");
+  }
+
+  /**
+   * Like fault(), for when the board itself is lost. The robot waits for attachBoard().
+   * @param reason Why, e.g. the connection was lost.
+   */
+  public disconnect(reason: string) {
+    this.giveUp(reason, "Disconnected");
+  }
+
+  /**
+   * Drives the joints through a new connection to the board, clearing the fault.
+   * The joints have to be homed again.
+   */
+  public attachBoard(io: FirmataType) {
+    ensureAccepted("attach", this.state);
+    this.instances.forEach((joint) => joint.attach(io));
+    this.group.attach(io);
+    this.faultReason = undefined;
+    this.setState("Unhomed");
+  }
+
+  private giveUp(reason: string, state: "Faulted" | "Disconnected") {
+    this.faultReason = reason;
+    this.logger.error(`${state}: ${reason}`);
+    this.interrupt(new Error(reason));
+    this.instances.forEach((joint) => joint.fault(reason));
+    this.group.fault(reason);
+    this.setState(state);
+  }
+
+  /**
+   * Rejects the homing or the moves in progress, running, paused or queued.
+   */
+  private interrupt(error: Error) {
+    this.interruption = error;
+    this.queue.clear(error);
+  }
+
+  /**
+   * Joints move while homing and moving, or one by one when Idle.
+   */
+  private ensureJointsMayMove() {
+    if (!["Homing", "Idle", "Moving"].includes(this.state)) {
+      throw new RobotStateError("move", this.state);
+    }
+  }
+
+  private setState(state: RobotState) {
+    if (state === this.state) return;
+    if (!canTransition(this.state, state)) {
+      throw new Error(`Robot cannot go from ${this.state} to ${state}.`);
     }
-    return Joint.stopAll();
+    const previous = this.state;
+    this.state = state;
+    this.logger.info(`State ${previous} -> ${state}`);
+    this.emit("state", state, previous);
   }
 }
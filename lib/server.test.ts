@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import http from "http";
+import { WebSocket } from "ws";
+import { ControlServer } from "./server.ts";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+function request(
+  port: number,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: "127.0.0.1", port, method, path },
+      (response) => {
+        let data = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk) => (data += chunk));
+        response.on("end", () =>
+          resolve({ status: response.statusCode, body: JSON.parse(data) })
+        );
+      }
+    );
+    req.on("error", reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+}
+
+describe("ControlServer on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+  let server: ControlServer;
+  let port: number;
+
+  beforeEach(async () => {
+    // Only timers are faked, the sockets need the real event loop
+    vi.useFakeTimers({ toFake: ["setTimeout", "setInterval", "Date"] });
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+    server = new ControlServer(robot, { port: 0 });
+    port = await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  it("should home and move the arm over REST", async () => {
+    const before = await request(port, "GET", "/status");
+    expect(before.status).toBe(200);
+    expect(before.body).toMatchObject({ motion: "idle", homed: false });
+    expect(before.body.joints).toHaveLength(6);
+
+    const home = await runFor(request(port, "POST", "/home"), 120_000, {
+      io: true,
+    });
+    expect(home.status).toBe(200);
+    expect(home.body.homed).toBe(true);
+
+    const target = [20, 15, -10, 30, 45, -20];
+    const move = await runFor(
+      request(port, "POST", "/move/joints", { joints: target }),
+      60_000,
+      { io: true }
+    );
+    expect(move.status).toBe(200);
+    target.forEach((angle, index) => {
+      expect(move.body.joints[index].degrees).toBeCloseTo(angle, 0);
+    });
+
+    const [x, y, z, rx, ry, rz] = move.body.pose;
+    const linear = await runFor(
+      request(port, "POST", "/move/linear", {
+        pose: [x + 10, y, z, rx, ry, rz],
+      }),
+      60_000,
+      { io: true }
+    );
+    expect(linear.status).toBe(200);
+    expect(linear.body.motion).toBe("idle");
+  });
+
+  it("should refuse bad requests and a second motion", async () => {
+    expect(
+      (await request(port, "POST", "/move/joints", { joints: [1, 2] })).status
+    ).toBe(400);
+    expect(
+      (
+        await request(port, "POST", "/move/joints", {
+          joints: [0, 0, 0, 0, 0, 0],
+          profile: "fast",
+        })
+      ).status
+    ).toBe(400);
+    expect((await request(port, "GET", "/nowhere")).status).toBe(404);
+
+    const homing = request(port, "POST", "/home");
+    await runFor(new Promise((resolve) => setTimeout(resolve, 500)), 500, {
+      io: true,
+    });
+    const busy = await request(port, "POST", "/move/joints", {
+      joints: [0, 0, 0, 0, 0, 0],
+    });
+    expect(busy.status).toBe(409);
+    expect(busy.body.error).toMatch(/busy homing/);
+
+    const halt = await request(port, "POST", "/halt");
+    expect(halt.status).toBe(200);
+    await runFor(homing, 120_000, { io: true });
+  });
+
+  it("should report a failed motion", async () => {
+    const move = await request(port, "POST", "/move/joints", {
+      joints: [10, 0, 0, 0, 0, 0],
+    });
+    expect(move.status).toBe(409);
+    expect(move.body.error).toMatch(/must be homed/);
+
+    const status = await request(port, "GET", "/status");
+    expect(status.body.lastError).toMatch(/must be homed/);
+  });
+
+  it("should refuse a move it cannot plan", async () => {
+    await runFor(request(port, "POST", "/home"), 120_000, { io: true });
+    const move = await request(port, "POST", "/move/joints", {
+      joints: [0, 0, 90, 0, 0, 0],
+    });
+    expect(move.status).toBe(422);
+    expect(move.body.error).toMatch(/upper arm hit/);
+  });
+
+  it("should stream the state over a WebSocket", async () => {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/ws`);
+    const messages: any[] = [];
+    socket.on("message", (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => socket.once("open", resolve));
+
+    await runFor(request(port, "POST", "/home"), 120_000, { io: true });
+    await runFor(new Promise((resolve) => setTimeout(resolve, 300)), 300, {
+      io: true,
+    });
+    socket.close();
+
+    expect(messages[0]).toMatchObject({ type: "state", motion: "idle" });
+    expect(messages.some((message) => message.motion === "homing")).toBe(true);
+    expect(messages[messages.length - 1]).toMatchObject({
+      motion: "idle",
+      homed: true,
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import http from "http";
+import { type AddressInfo } from "net";
+import { WebSocketServer, WebSocket } from "ws";
+import pino from "pino";
+import { MotionPlanningError, type Robot, type TPose } from "./robot.ts";
+import { type MotionProfile } from "./planner.ts";
+import { type RobotState, RobotStateError } from "./state.ts";
+
+/**
+ * What the arm is doing, as far as the server knows
+ */
+export type MotionState = "idle" | "homing" | "moving";
+
+export type RobotStatus = {
+  motion: MotionState;
+  state: RobotState;
+  homed: boolean;
+  joints: { name: string; degrees: number; homed: boolean }[];
+  /**
+   * Tool pose [x, y, z, rx, ry, rz], only once homed
+   */
+  pose?: TPose;
+  /**
+   * Message of the last motion that failed, cleared by the next one
+   */
+  lastError?: string;
+};
+
+export type ControlServerOptions = {
+  /**
+   * 0 picks a free port
+   */
+  port?: number;
+  host?: string;
+  /**
+   * How often the state is pushed to WebSocket clients, in milliseconds
+   */
+  statusIntervalMs?: number;
+};
+
+// Largest request body accepted, in bytes
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * A request the server refuses, with the HTTP status to answer it with.
+ */
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * The HTTP status to answer a failed request with: refusals in the robot's state and moves
+ * refused while planning are the client's, anything failing while the arm moves the server's.
+ */
+function statusOf(error: Error): number {
+  if (error instanceof HttpError) return error.status;
+  if (error instanceof RobotStateError) return 409;
+  if (error instanceof MotionPlanningError) return 422;
+  return 500;
+}
+
+function readJson(request: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new HttpError(413, "Request body is too large."));
+        request.destroy();
+      }
+    });
+    request.on("end", () => {
+      if (body.trim() === "") return resolve({});
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON."));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+function expectNumbers(value: unknown, field: string): number[] {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 6 ||
+    !value.every((item) => typeof item === "number" && Number.isFinite(item))
+  ) {
+    throw new HttpError(400, `"${field}" must be an array of 6 numbers.`);
+  }
+  return value;
+}
+
+function expectProfile(value: unknown): MotionProfile {
+  if (value === undefined) return "trapezoidal";
+  if (value !== "trapezoidal" && value !== "s-curve") {
+    throw new HttpError(
+      400,
+      `"profile" must be "trapezoidal" or "s-curve", got ${JSON.stringify(
+        value
+      )}.`
+    );
+  }
+  return value;
+}
+
+/**
+ * Lets other programs drive the arm over the network.
+ *
+ * REST, every body and answer is JSON:
+ * - GET  /status               the RobotStatus
+ * - POST /home                 homes every joint
+ * - POST /halt                 stops every joint, accepted while moving
+ * - POST /move/joints          { joints: number[6], profile?: MotionProfile }
+ * - POST /move/linear          { pose: number[6], frame?: string }, frame a user frame name
+ *
+ * Motion requests answer once the motion is done, with the status, and are refused with 409
+ * while another one runs. A WebSocket on /ws gets { type: "state", ...RobotStatus } when it
+ * connects, on every motion or robot state change, and every statusIntervalMs.
+ */
+export class ControlServer {
+  private server: http.Server;
+  private sockets: WebSocketServer;
+  private motion: MotionState = "idle";
+  private lastError: string | undefined;
+  private statusIntervalId: NodeJS.Timeout | undefined;
+  private statusIntervalMs: number;
+  private port: number;
+  private host: string;
+  private logger: pino.Logger;
+
+  /**
+   * @param robot - The robot to drive.
+   * @param options - Where to listen and how often to push the state.
+   */
+  constructor(private robot: Robot, options: ControlServerOptions = {}) {
+    this.port = options.port ?? 8080;
+    this.host = options.host ?? "127.0.0.1";
+    this.statusIntervalMs = options.statusIntervalMs ?? 100;
+    this.logger = pino({
+      name: "ControlServer",
+      level: "info",
+      base: { name: "ControlServer" },
+      timestamp: pino.stdTimeFunctions.isoTime,
+    });
+
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        this.send(response, statusOf(error), { error: error.message });
+      });
+    });
+    this.sockets = new WebSocketServer({ server: this.server, path: "/ws" });
+    this.sockets.on("connection", (socket) => {
+      socket.send(this.stateMessage());
+    });
+    this.robot.on("state", this.broadcast);
+  }
+
+  get Status(): RobotStatus {
+    const joints = [
+      this.robot.J1,
+      this.robot.J2,
+      this.robot.J3,
+      this.robot.J4,
+      this.robot.J5,
+      this.robot.J6,
+    ];
+    return {
+      motion: this.motion,
+      state: this.robot.State,
+      homed: this.robot.Homed,
+      joints: joints.map((joint) => ({
+        name: joint.Name,
+        degrees: joint.Degrees,
+        homed: joint.Homed,
+      })),
+      pose: this.robot.Homed ? this.robot.Pose : undefined,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Starts listening.
+   * @returns The port the server listens on.
+   */
+  public listen(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off("error", reject);
+        const { port } = this.server.address() as AddressInfo;
+        this.logger.info(`Listening on http://${this.host}:${port}`);
+        this.statusIntervalId = setInterval(
+          () => this.broadcast(),
+          this.statusIntervalMs
+        );
+        resolve(port);
+      });
+    });
+  }
+
+  /**
+   * Stops listening and disconnects every client. The arm is not stopped.
+   */
+  public close(): Promise<void> {
+    clearInterval(this.statusIntervalId);
+    this.robot.off("state", this.broadcast);
+    this.sockets.clients.forEach((socket) => socket.terminate());
+    this.sockets.close();
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ) {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    const route = `${request.method} ${pathname}`;
+
+    switch (route) {
+      case "GET /status":
+        return this.send(response, 200, this.Status);
+      case "POST /halt":
+        await this.robot.halt();
+        return this.send(response, 200, this.Status);
+      case "POST /home":
+        await this.runMotion("homing", () => this.robot.home());
+        return this.send(response, 200, this.Status);
+      case "POST /move/joints": {
+        const body = await readJson(request);
+        const joints = expectNumbers(body.joints, "joints");
+        const profile = expectProfile(body.profile);
+        await this.runMotion("moving", () =>
+          this.robot.moveJ({ joints }, profile)
+        );
+        return this.send(response, 200, this.Status);
+      }
+      case "POST /move/linear": {
+        const body = await readJson(request);
+        const pose = expectNumbers(body.pose, "pose") as TPose;
+        const frame = this.expectFrame(body.frame);
+        await this.runMotion("moving", () =>
+          this.robot.moveToLinearly(pose, frame)
+        );
+        return this.send(response, 200, this.Status);
+      }
+      default:
+        throw new HttpError(404, `No route for ${route}.`);
+    }
+  }
+
+  private expectFrame(frame: unknown): string {
+    if (frame === undefined) return "base";
+    if (typeof frame !== "string") {
+      throw new HttpError(400, `"frame" must be the name of a user frame.`);
+    }
+    try {
+      this.robot.frames.get(frame);
+    } catch (error) {
+      throw new HttpError(400, error.message);
+    }
+    return frame;
+  }
+
+  /**
+   * Runs one motion at a time, keeping the motion state and the last error up to date.
+   */
+  private async runMotion(state: MotionState, motion: () => Promise<unknown>) {
+    if (this.motion !== "idle") {
+      throw new HttpError(409, `Robot is busy ${this.motion}.`);
+    }
+    this.setMotion(state);
+    this.lastError = undefined;
+    try {
+      await motion();
+    } catch (error) {
+      this.lastError = error.message;
+      throw error;
+    } finally {
+      this.setMotion("idle");
+    }
+  }
+
+  private setMotion(state: MotionState) {
+    this.motion = state;
+    this.broadcast();
+  }
+
+  private stateMessage(): string {
+    return JSON.stringify({ type: "state", ...this.Status });
+  }
+
+  private broadcast = () => {
+    if (this.sockets.clients.size === 0) return;
+    const message = this.stateMessage();
+    this.sockets.clients.forEach((socket) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      }
+    });
+  };
+
+  private send(response: http.ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * What the robot is doing, every command is checked against it
+ * - Disconnected: the board was lost, nothing can move until it is attached again
+ * - Unhomed: connected, but the joints do not know where they are
+ * - Homing: running home()
+ * - Idle: homed and ready for a move
+ * - Moving: running a move
+ * - Paused: a move stopped by pause(), waiting for resume() or halt()
+ * - Faulted: something went wrong that needs a reset(), the joints have to be homed again
+ * - EStopped: stopped by estop(), latched until reset()
+ */
+export type RobotState =
+  | "Disconnected"
+  | "Unhomed"
+  | "Homing"
+  | "Idle"
+  | "Moving"
+  | "Paused"
+  | "Faulted"
+  | "EStopped";
+
+/**
+ * The commands that are only accepted in some states. estop(), fault() and disconnect()
+ * are accepted in every state.
+ */
+export type RobotCommand =
+  | "home"
+  | "move"
+  | "pause"
+  | "resume"
+  | "halt"
+  | "reset"
+  | "attach";
+
+const ACCEPTED_IN: Record<RobotCommand, RobotState[]> = {
+  home: ["Unhomed", "Idle"],
+  move: ["Idle"],
+  pause: ["Moving"],
+  resume: ["Paused"],
+  halt: [
+    "Unhomed",
+    "Homing",
+    "Idle",
+    "Moving",
+    "Paused",
+    "Faulted",
+    "EStopped",
+  ],
+  reset: ["Faulted", "EStopped"],
+  attach: ["Disconnected", "Faulted"],
+};
+
+const TRANSITIONS: Record<RobotState, RobotState[]> = {
+  Disconnected: ["Unhomed"],
+  Unhomed: ["Homing", "Faulted", "EStopped", "Disconnected"],
+  Homing: ["Idle", "Unhomed", "Faulted", "EStopped", "Disconnected"],
+  Idle: ["Homing", "Moving", "Faulted", "EStopped", "Disconnected"],
+  Moving: ["Idle", "Paused", "Faulted", "EStopped", "Disconnected"],
+  Paused: ["Moving", "Idle", "Faulted", "EStopped", "Disconnected"],
+  Faulted: ["Unhomed", "EStopped", "Disconnected"],
+  EStopped: ["Idle", "Unhomed", "Faulted", "Disconnected"],
+};
+
+// Completes "Cannot <command>: ..."
+const REASONS: Record<RobotState, string> = {
+  Disconnected: "the board is not connected",
+  Unhomed: "the robot must be homed first",
+  Homing: "the robot is homing",
+  Idle: "the robot is not moving",
+  Moving: "the robot is moving",
+  Paused: "a move is paused, resume or halt it first",
+  Faulted: "the robot is faulted, reset it first",
+  EStopped: "the emergency stop is engaged, reset it first",
+};
+
+/**
+ * A command the robot refuses in its current state.
+ */
+export class RobotStateError extends Error {
+  constructor(
+    public readonly command: RobotCommand,
+    public readonly state: RobotState
+  ) {
+    super(`Cannot ${command}: ${REASONS[state]}.`);
+    this.name = "RobotStateError";
+  }
+}
+
+/**
+ * @throws RobotStateError if the command is not accepted in the state.
+ */
+export function ensureAccepted(command: RobotCommand, state: RobotState) {
+  if (!ACCEPTED_IN[command].includes(state)) {
+    throw new RobotStateError(command, state);
+  }
+}
+
+/**
+ * @returns Whether the robot may go from one state straight to the other.
+ */
+export function canTransition(from: RobotState, to: RobotState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
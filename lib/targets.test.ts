@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TargetLibrary } from "./targets.ts";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+describe("TargetLibrary", () => {
+  let directory: string;
+  let path: string;
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "targets-"));
+    path = join(directory, "targets.json");
+    vi.useFakeTimers({ toFake: ["setTimeout", "setInterval", "Date"] });
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+  });
+
+  afterEach(async () => {
+    sim.close();
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should teach, persist and move back to a target", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.moveJ({ joints: [20, 15, -10, 30, 45, -20] }), 60_000);
+    robot.setToolFrame([0, 0, 50, 0, 0, 0]);
+
+    const library = new TargetLibrary(path, robot);
+    expect(await library.load()).toEqual([]);
+    const taught = await library.teach("pick");
+    [20, 15, -10, 30, 45, -20].forEach((angle, index) => {
+      expect(taught.joints[index]).toBeCloseTo(angle, 0);
+    });
+    expect(taught.tool).toEqual([0, 0, 50, 0, 0, 0]);
+    expect(taught.configuration).toBeDefined();
+    expect(taught.pose).toEqual(robot.Pose);
+    await expect(library.teach("pick")).rejects.toThrow(/already exists/);
+
+    await runFor(robot.moveJ({ joints: [0, 0, 0, 0, 0, 0] }), 60_000);
+
+    const reloaded = new TargetLibrary(path, robot);
+    await reloaded.load();
+    expect(reloaded.get("pick").joints).toEqual(taught.joints);
+    await runFor(reloaded.moveTo("pick"), 60_000);
+    [20, 15, -10, 30, 45, -20].forEach((angle, index) => {
+      expect(sim.physicalDegrees(index)).toBeCloseTo(angle, 0);
+    });
+  });
+
+  it("should move targets taught in a user frame along with the frame", async () => {
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.moveJ({ joints: [10, 20, -10, 0, 60, 0] }), 60_000);
+    const library = new TargetLibrary(path, robot);
+    await library.teachFrame(
+      "fixture",
+      [250, 0, 0],
+      [350, 0, 0],
+      [250, 100, 0]
+    );
+    const taught = await library.teach("slot", false, "fixture");
+    expect(taught.userFrame).toBe("fixture");
+    expect(robot.poseIn("fixture")).toEqual(taught.pose);
+    const [x, y, z] = robot.Pose;
+
+    // The fixture is moved 20 mm along the base Y axis and its frame re-taught
+    await library.teachFrame(
+      "fixture",
+      [250, 20, 0],
+      [350, 20, 0],
+      [250, 120, 0]
+    );
+    await runFor(robot.moveJ({ joints: [0, 0, 0, 0, 0, 0] }), 60_000);
+
+    const reloaded = new TargetLibrary(path, robot);
+    robot.frames.remove("fixture");
+    await reloaded.load();
+    expect(robot.frames.get("fixture").frame[1]).toBeCloseTo(20, 6);
+    await runFor(reloaded.moveTo("slot"), 60_000);
+    const pose = robot.Pose;
+    expect(pose[0]).toBeCloseTo(x, 0);
+    expect(pose[1]).toBeCloseTo(y + 20, 0);
+    expect(pose[2]).toBeCloseTo(z, 0);
+  });
+
+  it("should rename and delete targets", async () => {
+    await runFor(robot.home(), 120_000);
+    const library = new TargetLibrary(path, robot);
+    await library.teach("a");
+    await library.teach("b");
+
+    await library.rename("a", "c");
+    await expect(library.rename("b", "c")).rejects.toThrow(/already exists/);
+    await library.delete("b");
+    expect(library.list().map((target) => target.name)).toEqual(["c"]);
+    expect(() => library.get("a")).toThrow(/No target named "a"/);
+
+    const file = JSON.parse(await readFile(path, "utf8"));
+    expect(file.targets.map((target) => target.name)).toEqual(["c"]);
+    expect(file.targets[0].outOfRange).toBeUndefined();
+  });
+
+  it("should flag targets outside the current joint ranges on load", async () => {
+    await writeFile(
+      path,
+      JSON.stringify({
+        version: 1,
+        targets: [
+          {
+            name: "reachable",
+            joints: [0, 0, 0, 0, 0, 0],
+            pose: [0, 0, 0, 0, 0, 0],
+            tool: [0, 0, 0, 0, 0, 0],
+            frame: [0, 0, 0, 0, 0, 0],
+          },
+          {
+            name: "too_far",
+            joints: [0, 120, 0, 0, 0, 0],
+            pose: [0, 0, 0, 0, 0, 0],
+            tool: [0, 0, 0, 0, 0, 0],
+            frame: [0, 0, 0, 0, 0, 0],
+          },
+        ],
+      })
+    );
+    const library = new TargetLibrary(path, robot);
+
+    const flagged = await library.load();
+    expect(flagged.map((target) => target.name)).toEqual(["too_far"]);
+    expect(flagged[0].outOfRange).toEqual(["J2"]);
+    await expect(library.moveTo("too_far")).rejects.toThrow(
+      /out of range on J2/
+    );
+  });
+
+  it("should keep the targets it has when the file is broken", async () => {
+    const target = {
+      name: "ok",
+      joints: [0, 0, 0, 0, 0, 0],
+      pose: [0, 0, 0, 0, 0, 0],
+      tool: [0, 0, 0, 0, 0, 0],
+      frame: [0, 0, 0, 0, 0, 0],
+    };
+    await writeFile(path, JSON.stringify({ version: 1, targets: [target] }));
+    const library = new TargetLibrary(path, robot);
+    await library.load();
+
+    await writeFile(
+      path,
+      JSON.stringify({
+        version: 1,
+        targets: [{ ...target, name: "short", joints: [0, 0, 0] }],
+      })
+    );
+    await expect(library.load()).rejects.toThrow(
+      'Target "short" in ' + path + " does not have 6 joint angles."
+    );
+    expect(library.list().map(({ name }) => name)).toEqual(["ok"]);
+
+    // Nor does it add some of the frames
+    await writeFile(
+      path,
+      JSON.stringify({
+        version: 1,
+        frames: [
+          { name: "fixture", frame: [100, 0, 0, 0, 0, 0] },
+          { name: "base", frame: [0, 0, 0, 0, 0, 0] },
+        ],
+        targets: [target],
+      })
+    );
+    await expect(library.load()).rejects.toThrow(
+      /"base" cannot name a user frame/
+    );
+    expect(robot.frames.list().map(({ name }) => name)).not.toContain(
+      "fixture"
+    );
+  });
+});
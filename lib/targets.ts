@@ -0,0 +1,254 @@
+import { readFile, writeFile } from "fs/promises";
+import { JOINT_CONFIGS } from "../config.ts";
+import { type IKConfiguration } from "./kinematics.ts";
+import { type MotionProfile } from "./planner.ts";
+import { type Robot, type TPose } from "./robot.ts";
+import { type UserFrame, validateUserFrame } from "./frames.ts";
+
+/**
+ * A taught position, everything needed to get back to it exactly.
+ */
+export type StoredTarget = {
+  name: string;
+  /**
+   * Joint angles in degrees (J1 to J6)
+   */
+  joints: number[];
+  /**
+   * Tool pose [x, y, z, rx, ry, rz] in the frame below
+   */
+  pose: TPose;
+  /**
+   * The tool center point it was taught with, relative to the flange
+   */
+  tool: TPose;
+  /**
+   * The frame the pose is in, relative to the robot base, as it was when the target was taught
+   */
+  frame: TPose;
+  /**
+   * The user frame the pose is in, none for the robot base
+   */
+  userFrame?: string;
+  /**
+   * The inverse kinematics branch the joints are on
+   */
+  configuration?: IKConfiguration;
+};
+
+/**
+ * A stored target as checked against the current joint ranges.
+ */
+export type LibraryTarget = StoredTarget & {
+  /**
+   * Joints (e.g. "J2") whose stored angle is outside the range in JOINT_CONFIGS,
+   * empty if the target can be reached
+   */
+  outOfRange: string[];
+};
+
+type TargetFile = { version: 1; targets: StoredTarget[]; frames?: UserFrame[] };
+
+function jointsOutOfRange(joints: number[]): string[] {
+  return joints.flatMap((angle, index) => {
+    const name = `J${index + 1}`;
+    const config = JOINT_CONFIGS[name];
+    if (!config) return [name];
+    const [min, max] = config.RANGE;
+    return angle >= min && angle <= max ? [] : [name];
+  });
+}
+
+/**
+ * Named positions taught on the arm, kept in a JSON file so they outlive the session together
+ * with the robot's user frames. Every change is written to the file straight away.
+ */
+export class TargetLibrary {
+  private targets: Map<string, LibraryTarget> = new Map();
+
+  /**
+   * @param path - The JSON file the targets are kept in.
+   * @param robot - The robot targets are taught on and moved to.
+   */
+  constructor(private path: string, private robot: Robot) {}
+
+  /**
+   * Reads the targets from the file, replacing those in memory. A missing file is an empty library.
+   * User frames in the file that the robot does not have yet are added to it. Nothing changes
+   * if the file is not a valid library.
+   * @returns The targets that can no longer be reached because a joint range has changed.
+   */
+  public async load(): Promise<LibraryTarget[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.path, "utf8");
+    } catch (error) {
+      if (error.code !== "ENOENT") throw error;
+      contents = JSON.stringify({ version: 1, targets: [] });
+    }
+    const file: TargetFile = JSON.parse(contents);
+    if (file.version !== 1 || !Array.isArray(file.targets)) {
+      throw new Error(`${this.path} is not a target library.`);
+    }
+    for (const target of file.targets) {
+      if (target.joints?.length !== 6) {
+        throw new Error(
+          `Target "${target.name}" in ${this.path} does not have 6 joint angles.`
+        );
+      }
+    }
+    (file.frames ?? []).forEach(validateUserFrame);
+
+    for (const frame of file.frames ?? []) {
+      if (!this.robot.frames.list().some(({ name }) => name === frame.name)) {
+        this.robot.frames.add(frame);
+      }
+    }
+    this.targets.clear();
+    for (const target of file.targets) {
+      this.targets.set(target.name, {
+        ...target,
+        outOfRange: jointsOutOfRange(target.joints),
+      });
+    }
+    return this.list().filter((target) => target.outOfRange.length > 0);
+  }
+
+  /**
+   * All targets, sorted by name.
+   */
+  public list(): LibraryTarget[] {
+    return [...this.targets.values()].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * @throws If there is no target with that name.
+   */
+  public get(name: string): LibraryTarget {
+    const target = this.targets.get(name);
+    if (!target) {
+      throw new Error(`No target named "${name}".`);
+    }
+    return target;
+  }
+
+  /**
+   * Stores where the arm is now under a name.
+   * @param name - The name to store it under.
+   * @param overwrite - Whether an existing target with that name may be replaced.
+   * @param frame - The user frame to store the pose in, so the target follows it when it is re-taught.
+   */
+  public async teach(
+    name: string,
+    overwrite = false,
+    frame = "base"
+  ): Promise<LibraryTarget> {
+    if (!name.trim()) {
+      throw new Error("A target needs a name.");
+    }
+    if (!this.robot.Homed) {
+      throw new Error("Robot must be homed before teaching a target.");
+    }
+    if (this.targets.has(name) && !overwrite) {
+      throw new Error(`A target named "${name}" already exists.`);
+    }
+    const joints = [
+      this.robot.J1,
+      this.robot.J2,
+      this.robot.J3,
+      this.robot.J4,
+      this.robot.J5,
+      this.robot.J6,
+    ].map((joint) => joint.Degrees);
+    const target: LibraryTarget = {
+      name,
+      joints,
+      pose: this.robot.frames.fromBase(this.robot.poseOf(joints), frame),
+      tool: this.robot.Tool,
+      frame: [...this.robot.frames.get(frame).frame],
+      ...(frame !== "base" && { userFrame: frame }),
+      configuration: this.robot.Configuration,
+      outOfRange: jointsOutOfRange(joints),
+    };
+    this.targets.set(name, target);
+    await this.save();
+    return target;
+  }
+
+  public async rename(from: string, to: string) {
+    const target = this.get(from);
+    if (!to.trim()) {
+      throw new Error("A target needs a name.");
+    }
+    if (from === to) return;
+    if (this.targets.has(to)) {
+      throw new Error(`A target named "${to}" already exists.`);
+    }
+    this.targets.delete(from);
+    this.targets.set(to, { ...target, name: to });
+    await this.save();
+  }
+
+  public async delete(name: string) {
+    this.get(name);
+    this.targets.delete(name);
+    await this.save();
+  }
+
+  /**
+   * Moves to a stored target by its joint angles, so it is reached on the branch it was taught on.
+   * A target in a user frame that has been re-taught since is moved to by its pose in the frame
+   * instead, solved on the current branch.
+   * @param name - The target to move to.
+   * @param profile - The shape of the velocity profile.
+   * @throws If a joint angle is outside its current range.
+   */
+  public async moveTo(name: string, profile: MotionProfile = "trapezoidal") {
+    const target = this.get(name);
+    if (target.userFrame) {
+      const { frame } = this.robot.frames.get(target.userFrame);
+      if (frame.some((value, index) => value !== target.frame[index])) {
+        return this.robot.moveJ(
+          { pose: target.pose, frame: target.userFrame },
+          profile
+        );
+      }
+    }
+    if (target.outOfRange.length > 0) {
+      throw new Error(
+        `Target "${name}" is out of range on ${target.outOfRange.join(", ")}.`
+      );
+    }
+    return this.robot.moveJ({ joints: target.joints }, profile);
+  }
+
+  /**
+   * Defines a user frame on the robot from three points in the base frame and keeps it with
+   * the targets. Re-teaching a frame moves every target taught in it along.
+   * @param name - The frame, replaced if it exists.
+   * @param origin - The frame's origin.
+   * @param xPoint - A point on the frame's positive X axis.
+   * @param xyPoint - A point on the frame's XY plane, on the positive Y side.
+   */
+  public async teachFrame(
+    name: string,
+    origin: [number, number, number],
+    xPoint: [number, number, number],
+    xyPoint: [number, number, number]
+  ): Promise<UserFrame> {
+    const frame = this.robot.frames.teach(name, origin, xPoint, xyPoint);
+    await this.save();
+    return frame;
+  }
+
+  private async save() {
+    const file: TargetFile = {
+      version: 1,
+      targets: this.list().map(({ outOfRange, ...target }) => target),
+      frames: this.robot.frames.list(),
+    };
+    await writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  loadTelemetry,
+  replayTelemetry,
+  TelemetryRecorder,
+} from "./telemetry.ts";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+describe("Telemetry on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "telemetry-"));
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+    await runFor(robot.home(), 120_000);
+  });
+
+  afterEach(async () => {
+    sim.close();
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should record samples and state transitions to CSV and NDJSON", async () => {
+    for (const file of ["move.csv", "move.ndjson"]) {
+      const path = join(directory, file);
+      const recorder = new TelemetryRecorder(robot, { rateHz: 20 });
+      recorder.start(path);
+      await runFor(robot.moveJ({ joints: [20, 10, 0, 0, 0, 0] }), 30_000);
+      await vi.advanceTimersByTimeAsync(500);
+      const written = await recorder.stop();
+      expect(recorder.Recording).toBe(false);
+
+      const records = await loadTelemetry(path);
+      expect(records).toHaveLength(written);
+      expect(
+        records
+          .filter((record) => record.kind === "state")
+          .map((record) => [record.previousState, record.state])
+      ).toEqual([
+        ["Idle", "Moving"],
+        ["Moving", "Idle"],
+      ]);
+
+      const samples = records.filter((record) => record.kind === "sample");
+      // Every 50 ms
+      expect(samples[1].time - samples[0].time).toBe(50);
+      const moving = samples.filter((record) => record.state === "Moving");
+      expect(moving.length).toBeGreaterThan(10);
+      expect(moving.every((record) => record.command === "moveJ")).toBe(true);
+      // Setpoints are streamed, the joints follow them closely
+      const halfway = moving[Math.floor(moving.length / 2)];
+      expect(halfway.commanded[0]).toBeLessThan(18);
+      expect(halfway.commanded[0]).toBeCloseTo(halfway.reported[0], 0);
+      expect(halfway.pose).toEqual(
+        robot.poseOf(halfway.reported).map((value) => expect.closeTo(value, 3))
+      );
+      const last = samples[samples.length - 1];
+      expect(last.state).toBe("Idle");
+      expect(last.command).toBeUndefined();
+      expect(last.reported[0]).toBeCloseTo(20, 1);
+
+      await runFor(robot.moveJ({ joints: [0, 0, 0, 0, 0, 0] }), 30_000);
+    }
+
+    const csv = await readFile(join(directory, "move.csv"), "utf8");
+    expect(csv.split("\n")[0]).toBe(
+      "time,kind,state,previousState,command," +
+        "commanded_J1,commanded_J2,commanded_J3,commanded_J4,commanded_J5,commanded_J6," +
+        "reported_J1,reported_J2,reported_J3,reported_J4,reported_J5,reported_J6," +
+        "x,y,z,rx,ry,rz"
+    );
+  });
+
+  it("should replay a recorded move at a slower speed", async () => {
+    const path = join(directory, "move.ndjson");
+    const recorder = new TelemetryRecorder(robot);
+    recorder.start(path);
+    let startedAt = Date.now();
+    await runFor(robot.moveJ({ joints: [10, 0, -10, 0, 0, 0] }), 30_000);
+    const recordedFor = Date.now() - startedAt;
+    await recorder.stop();
+    await runFor(robot.moveJ({ joints: [0, 0, 0, 0, 0, 0] }), 30_000);
+    const records = await loadTelemetry(path);
+
+    await expect(
+      replayTelemetry(robot, records, { speedScale: 2 })
+    ).rejects.toThrow("Speed scale must be in (0, 1], got 2.");
+
+    const commands: string[] = [];
+    robot.on("state", () => commands.push(robot.Command));
+    startedAt = Date.now();
+    await runFor(replayTelemetry(robot, records, { speedScale: 0.5 }), 60_000);
+
+    expect(commands).toContain("followJointPath");
+    expect(Date.now() - startedAt).toBeGreaterThan(recordedFor * 1.5);
+    expect(robot.J1.Degrees).toBeCloseTo(10, 0);
+    expect(robot.J3.Degrees).toBeCloseTo(-10, 0);
+    expect(robot.State).toBe("Idle");
+  });
+});
@@ -0,0 +1,293 @@
+import { createWriteStream, type WriteStream } from "fs";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import pino from "pino";
+import { type Robot, type TPose } from "./robot.ts";
+import { type RobotState } from "./state.ts";
+
+export type TelemetryFormat = "csv" | "ndjson";
+
+/**
+ * One line of a recording.
+ */
+export type TelemetryRecord = {
+  /**
+   * Milliseconds since the recording started
+   */
+  time: number;
+  /**
+   * "sample" at the recorder's rate, "state" on every state transition
+   */
+  kind: "sample" | "state";
+  state: RobotState;
+  /**
+   * The state the robot left, for "state" records
+   */
+  previousState?: RobotState;
+  /**
+   * The move or homing running, e.g. "moveJ"
+   */
+  command?: string;
+  /**
+   * Joint angles in degrees (J1 to J6) the joints were last sent to
+   */
+  commanded: number[];
+  /**
+   * Joint angles in degrees (J1 to J6) as the board reported them
+   */
+  reported: number[];
+  /**
+   * Tool pose [x, y, z, rx, ry, rz] at the reported joint angles
+   */
+  pose: TPose;
+};
+
+export type TelemetryRecorderOptions = {
+  /**
+   * Samples per second
+   */
+  rateHz?: number;
+};
+
+export type ReplayOptions = {
+  /**
+   * Fraction (0 to 1] of the recorded speed
+   */
+  speedScale?: number;
+  /**
+   * Which joint angles to play back, the reported ones by default, as a move to a single
+   * target is one jump in the commanded ones
+   */
+  source?: "commanded" | "reported";
+};
+
+const JOINTS = ["J1", "J2", "J3", "J4", "J5", "J6"];
+const POSE = ["x", "y", "z", "rx", "ry", "rz"];
+const CSV_COLUMNS = [
+  "time",
+  "kind",
+  "state",
+  "previousState",
+  "command",
+  ...JOINTS.map((joint) => `commanded_${joint}`),
+  ...JOINTS.map((joint) => `reported_${joint}`),
+  ...POSE,
+];
+
+function formatOf(path: string): TelemetryFormat {
+  return extname(path).toLowerCase() === ".csv" ? "csv" : "ndjson";
+}
+
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function toCsv(record: TelemetryRecord): string {
+  return [
+    record.time,
+    record.kind,
+    record.state,
+    record.previousState ?? "",
+    record.command ?? "",
+    ...record.commanded,
+    ...record.reported,
+    ...record.pose,
+  ].join(",");
+}
+
+function fromCsv(line: string, columns: string[]): TelemetryRecord {
+  const cells = Object.fromEntries(
+    line.split(",").map((cell, index) => [columns[index], cell])
+  );
+  const numbers = (names: string[]) => names.map((name) => Number(cells[name]));
+  return {
+    time: Number(cells.time),
+    kind: cells.kind as TelemetryRecord["kind"],
+    state: cells.state as RobotState,
+    ...(cells.previousState && {
+      previousState: cells.previousState as RobotState,
+    }),
+    ...(cells.command && { command: cells.command }),
+    commanded: numbers(JOINTS.map((joint) => `commanded_${joint}`)),
+    reported: numbers(JOINTS.map((joint) => `reported_${joint}`)),
+    pose: numbers(POSE) as TPose,
+  };
+}
+
+/**
+ * Records what the robot does to a CSV or NDJSON file, to look into a move after the fact.
+ *
+ * Samples the commanded and reported joint angles, the pose, the command running and the
+ * state at a fixed rate, and adds a record on every state transition. A sample asks the
+ * board where the joints are, one that is still waiting for the board when the next is due
+ * makes that one skip.
+ */
+export class TelemetryRecorder {
+  private rateHz: number;
+  private stream: WriteStream | undefined;
+  private format: TelemetryFormat;
+  private startedAt = 0;
+  private intervalId: NodeJS.Timeout | undefined;
+  private sampling = false;
+  private written = 0;
+  private logger: pino.Logger;
+
+  constructor(private robot: Robot, options: TelemetryRecorderOptions = {}) {
+    this.rateHz = options.rateHz ?? 10;
+    if (!(this.rateHz > 0)) {
+      throw new Error(`Rate must be positive, got ${this.rateHz}.`);
+    }
+    this.logger = pino({
+      name: "TelemetryRecorder",
+      level: "info",
+      base: { name: "TelemetryRecorder" },
+      timestamp: pino.stdTimeFunctions.isoTime,
+    });
+  }
+
+  public get Recording(): boolean {
+    return this.stream !== undefined;
+  }
+
+  /**
+   * Starts recording to a file, replacing it.
+   * @param path Where to write, CSV for .csv files and NDJSON otherwise.
+   * @param format To write another format than the extension says.
+   */
+  public start(path: string, format = formatOf(path)) {
+    if (this.stream) {
+      throw new Error("Already recording, stop() first.");
+    }
+    this.format = format;
+    this.stream = createWriteStream(path);
+    this.stream.on("error", (error) =>
+      this.logger.error(`Writing ${path} failed: ${error.message}`)
+    );
+    if (format === "csv") {
+      this.stream.write(`${CSV_COLUMNS.join(",")}\n`);
+    }
+    this.startedAt = Date.now();
+    this.written = 0;
+    this.robot.on("state", this.onState);
+    this.intervalId = setInterval(() => this.sample(), 1000 / this.rateHz);
+    this.sample();
+    this.logger.info(`Recording to ${path} at ${this.rateHz} Hz`);
+  }
+
+  /**
+   * Stops recording, once everything is written to the file.
+   * @returns How many records were written.
+   */
+  public async stop(): Promise<number> {
+    const stream = this.stream;
+    if (!stream) return 0;
+    this.stream = undefined;
+    clearInterval(this.intervalId);
+    this.robot.off("state", this.onState);
+    await new Promise<void>((resolve) => stream.end(resolve));
+    this.logger.info(`Recorded ${this.written} records`);
+    return this.written;
+  }
+
+  // Records the joint angles last reported, asking the board would record a later state
+  private onState = (state: RobotState, previousState: RobotState) => {
+    const reported = this.joints().map((joint) => joint.Degrees);
+    this.write({ ...this.recordOf("state", reported), previousState });
+  };
+
+  private async sample() {
+    if (this.sampling) return;
+    this.sampling = true;
+    try {
+      const joints = this.joints();
+      // Nothing answers without the board
+      const reported =
+        this.robot.State === "Disconnected"
+          ? joints.map((joint) => joint.Degrees)
+          : await Promise.all(joints.map((joint) => joint.reportDegrees()));
+      this.write(this.recordOf("sample", reported));
+    } catch (error) {
+      this.logger.warn(`Sample skipped: ${error.message}`);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  private recordOf(
+    kind: TelemetryRecord["kind"],
+    reported: number[]
+  ): TelemetryRecord {
+    return {
+      time: Date.now() - this.startedAt,
+      kind,
+      state: this.robot.State,
+      ...(this.robot.Command && { command: this.robot.Command }),
+      commanded: this.joints().map((joint) => round(joint.Commanded)),
+      reported: reported.map(round),
+      pose: this.robot.poseOf(reported).map(round) as TPose,
+    };
+  }
+
+  private write(record: TelemetryRecord) {
+    // Stopped while the sample was waiting for the board
+    if (!this.stream) return;
+    this.stream.write(
+      `${this.format === "csv" ? toCsv(record) : JSON.stringify(record)}\n`
+    );
+    this.written++;
+  }
+
+  private joints() {
+    const { J1, J2, J3, J4, J5, J6 } = this.robot;
+    return [J1, J2, J3, J4, J5, J6];
+  }
+}
+
+/**
+ * Reads a recording, CSV for .csv files and NDJSON otherwise.
+ */
+export async function loadTelemetry(path: string): Promise<TelemetryRecord[]> {
+  const lines = (await readFile(path, "utf8"))
+    .split("\n")
+    .filter((line) => line.trim());
+  if (formatOf(path) === "ndjson") {
+    return lines.map((line) => JSON.parse(line));
+  }
+  const [header, ...rows] = lines;
+  const columns = header.split(",");
+  return rows.map((row) => fromCsv(row, columns));
+}
+
+/**
+ * Plays the moves of a recording back: the joints move to where the first one started, then
+ * follow the joint angles sampled while the robot was Moving, with the pauses between the
+ * moves left out.
+ * @param robot The robot to move, homed and Idle.
+ * @param records A recording, e.g. from loadTelemetry().
+ * @param options How fast, and whether to play the commanded or the reported joint angles.
+ */
+export async function replayTelemetry(
+  robot: Robot,
+  records: TelemetryRecord[],
+  options: ReplayOptions = {}
+) {
+  const { speedScale = 1, source = "reported" } = options;
+  if (!(speedScale > 0 && speedScale <= 1)) {
+    throw new Error(`Speed scale must be in (0, 1], got ${speedScale}.`);
+  }
+  const samples = records.filter(
+    (record) => record.kind === "sample" && record.state === "Moving"
+  );
+  if (samples.length < 2) {
+    throw new Error("The recording has no moves to replay.");
+  }
+  // Samples are taken at a fixed rate, the median leaves out the pauses between moves
+  const intervals = samples
+    .slice(1)
+    .map((record, index) => record.time - samples[index].time)
+    .sort((a, b) => a - b);
+  const periodMs = intervals[Math.floor(intervals.length / 2)] / speedScale;
+  const setpoints = samples.map((record) => record[source]);
+  await robot.moveJ({ joints: setpoints[0] });
+  await robot.followJointPath(setpoints, periodMs);
+}
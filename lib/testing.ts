@@ -0,0 +1,26 @@
+import { vi } from "vitest";
+
+/**
+ * Lets the simulated arm run for the given time and returns the result of the pending
+ * action. Rejections are checked by the caller once the time has run.
+ * @param io Also let pending I/O through every step, for tests with real sockets and only
+ * the timers faked.
+ */
+export async function runFor<T>(
+  promise: Promise<T>,
+  ms: number,
+  { io = false } = {}
+): Promise<T> {
+  let settled = false;
+  const result = promise.finally(() => {
+    settled = true;
+  });
+  result.catch(() => {});
+  for (let elapsed = 0; elapsed < ms && !settled; elapsed += 100) {
+    if (io) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await vi.advanceTimersByTimeAsync(100);
+  }
+  return result;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Robot } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { createKinematics } from "./kinematics.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+
+/**
+ * Joint angles that put a tool with the given TCP on the same point in every orientation,
+ * as if it had been touched up to a fixed tip.
+ */
+function touchUps(
+  tcp: [number, number, number],
+  point: [number, number, number],
+  orientations: [number, number, number][]
+): number[][] {
+  const kinematics = createKinematics();
+  kinematics.setToolFrame(...tcp, 0, 0, 0);
+  return orientations.map(([rx, ry, rz]) =>
+    kinematics.inverseKinematicsNearest(
+      ...point,
+      rx,
+      ry,
+      rz,
+      [0, 0, 0, 0, 0, 0]
+    )
+  );
+}
+
+describe("ToolManager", () => {
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+  });
+
+  afterEach(() => {
+    sim.close();
+    vi.useRealTimers();
+  });
+
+  it("should switch the tool frame between named tools", () => {
+    expect(robot.tools.Active.name).toBe("flange");
+    const flangePose = robot.Pose;
+
+    robot.tools.add({ name: "gripper", tcp: [0, 0, 120, 0, 0, 0], mass: 0.4 });
+    robot.tools.add({ name: "pen", tcp: [0, 30, 90, 0, 0, 0] });
+    expect(robot.tools.list().map((tool) => tool.name)).toEqual([
+      "flange",
+      "gripper",
+      "pen",
+    ]);
+
+    robot.tools.select("gripper");
+    expect(robot.Tool).toEqual([0, 0, 120, 0, 0, 0]);
+    const gripperPose = robot.Pose;
+    expect(
+      Math.hypot(...[0, 1, 2].map((i) => gripperPose[i] - flangePose[i]))
+    ).toBeCloseTo(120, 6);
+
+    // Updating the active tool applies straight away
+    robot.tools.add({ name: "gripper", tcp: [0, 0, 150, 0, 0, 0] });
+    expect(robot.Tool).toEqual([0, 0, 150, 0, 0, 0]);
+
+    expect(() => robot.tools.remove("gripper")).toThrow(/in use/);
+    robot.tools.select("flange");
+    robot.tools.remove("gripper");
+    expect(() => robot.tools.select("gripper")).toThrow(/No tool named/);
+    expect(() => robot.tools.remove("flange")).toThrow(/cannot be removed/);
+  });
+
+  it("should reject malformed tools", () => {
+    expect(() =>
+      robot.tools.add({ name: "", tcp: [0, 0, 0, 0, 0, 0] })
+    ).toThrow(/needs a name/);
+    expect(() =>
+      robot.tools.add({ name: "short", tcp: [0, 0, 0] as never })
+    ).toThrow(/6 numbers/);
+    expect(() =>
+      robot.tools.add({ name: "heavy", tcp: [0, 0, 0, 0, 0, 0], mass: -1 })
+    ).toThrow(/negative mass/);
+  });
+
+  it("should calibrate the TCP from touch-ups of a fixed point", () => {
+    const configurations = touchUps(
+      [12, -8, 95],
+      [320, 40, 150],
+      [
+        [180, 0, 180],
+        [160, 10, 170],
+        [180, -20, 190],
+        [200, 15, 160],
+        [170, -10, 200],
+      ]
+    );
+    robot.tools.add({ name: "probe", tcp: [0, 0, 0, 0, 0, 30], mass: 0.2 });
+
+    const calibration = robot.tools.calibrate("probe", configurations);
+    [12, -8, 95].forEach((value, i) =>
+      expect(calibration.offset[i]).toBeCloseTo(value, 6)
+    );
+    [320, 40, 150].forEach((value, i) =>
+      expect(calibration.point[i]).toBeCloseTo(value, 6)
+    );
+    expect(calibration.residuals).toHaveLength(5);
+    expect(calibration.maxError).toBeLessThan(1e-6);
+
+    // The orientation and mass of the tool are kept
+    const probe = robot.tools.get("probe");
+    expect(probe.tcp.slice(3)).toEqual([0, 0, 30]);
+    expect(probe.mass).toBe(0.2);
+  });
+
+  it("should report the residual error of imprecise touch-ups", () => {
+    const configurations = touchUps(
+      [0, 0, 100],
+      [320, 40, 150],
+      [
+        [180, 0, 180],
+        [160, 10, 170],
+        [180, -20, 190],
+        [200, 15, 160],
+      ]
+    );
+    // Missing the point by a bit on one of them
+    configurations[1][1] += 0.2;
+
+    const calibration = robot.tools.calibrate("probe", configurations);
+    expect(calibration.maxError).toBeGreaterThan(0.1);
+    expect(calibration.rmsError).toBeLessThan(calibration.maxError);
+  });
+
+  it("should refuse touch-ups that cannot pin the TCP down", () => {
+    const configurations = touchUps(
+      [0, 0, 100],
+      [300, 0, 200],
+      [
+        [180, 0, 180],
+        [180, 0, 160],
+        [180, 0, 200],
+        [180, 0, 140],
+      ]
+    );
+    // Turning about the tool axis only cannot tell how long the tool is
+    expect(() => robot.tools.calibrate("probe", configurations)).toThrow(
+      /too alike/
+    );
+    expect(() =>
+      robot.tools.calibrate("probe", configurations.slice(0, 3))
+    ).toThrow(/at least 4/);
+    expect(() => robot.tools.get("probe")).toThrow(/No tool named/);
+  });
+});
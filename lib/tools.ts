@@ -0,0 +1,225 @@
+import { eigs, lusolve, multiply, transpose } from "mathjs";
+import { type Robot, type TPose } from "./robot.ts";
+
+type TPoint = [number, number, number]; // [x, y, z]
+
+/**
+ * Something mounted on the flange
+ */
+export type Tool = {
+  name: string;
+  /**
+   * The tool center point relative to the flange [x, y, z, rx, ry, rz], rotations in degrees
+   */
+  tcp: TPose;
+  /**
+   * In kg
+   */
+  mass?: number;
+};
+
+export type TcpCalibration = {
+  /**
+   * The tool center point relative to the flange [x, y, z]
+   */
+  offset: TPoint;
+  /**
+   * The fixed point every configuration touched, in the base frame
+   */
+  point: TPoint;
+  /**
+   * How far each configuration's tool center point misses the fixed point, in mm
+   */
+  residuals: number[];
+  rmsError: number;
+  maxError: number;
+};
+
+/**
+ * The bare flange, always available
+ */
+export const FLANGE_TOOL: Tool = { name: "flange", tcp: [0, 0, 0, 0, 0, 0] };
+
+// Smallest to largest eigenvalue ratio below which the touch-up poses cannot pin the TCP down
+const CALIBRATION_CONDITION_LIMIT = 1e-4;
+
+function validateTool(tool: Tool) {
+  if (!tool.name?.trim()) {
+    throw new Error("A tool needs a name.");
+  }
+  if (
+    tool.tcp?.length !== 6 ||
+    !tool.tcp.every((value) => Number.isFinite(value))
+  ) {
+    throw new Error(`Tool "${tool.name}" needs a TCP of 6 numbers.`);
+  }
+  if (tool.mass !== undefined && !(tool.mass >= 0)) {
+    throw new Error(`Tool "${tool.name}" cannot have a negative mass.`);
+  }
+}
+
+/**
+ * Solves the TCP offset from flange frames that all put the tool tip on the same point.
+ * Every frame gives R * offset + p = point, which is solved for the offset and the point by
+ * least squares.
+ * @param flangeFrames 4x4 base to flange transformations, at least four in different orientations.
+ * @throws If there are too few frames, or their orientations are too alike to tell the offset.
+ */
+export function calibrateTcp(flangeFrames: number[][][]): TcpCalibration {
+  if (flangeFrames.length < 4) {
+    throw new Error(
+      `TCP calibration needs at least 4 configurations, got ${flangeFrames.length}.`
+    );
+  }
+  // Rows of [R | -I] [offset; point] = -p
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (const frame of flangeFrames) {
+    for (let row = 0; row < 3; row++) {
+      A.push([
+        frame[row][0],
+        frame[row][1],
+        frame[row][2],
+        ...[0, 1, 2].map((column) => (column === row ? -1 : 0)),
+      ]);
+      b.push(-frame[row][3]);
+    }
+  }
+  const AT = transpose(A);
+  const normal = multiply(AT, A) as number[][];
+  const eigenvalues = (eigs(normal).values as number[]).map(Math.abs);
+  if (
+    Math.min(...eigenvalues) <
+    CALIBRATION_CONDITION_LIMIT * Math.max(...eigenvalues)
+  ) {
+    throw new Error(
+      "TCP calibration configurations are too alike in orientation, tilt the tool further between them."
+    );
+  }
+  const solution = (
+    lusolve(normal, multiply(AT, b) as number[]) as number[][]
+  ).map(([value]) => value);
+  const offset = solution.slice(0, 3) as TPoint;
+  const point = solution.slice(3) as TPoint;
+
+  const residuals = flangeFrames.map((frame) =>
+    Math.hypot(
+      ...[0, 1, 2].map(
+        (row) =>
+          frame[row][0] * offset[0] +
+          frame[row][1] * offset[1] +
+          frame[row][2] * offset[2] +
+          frame[row][3] -
+          point[row]
+      )
+    )
+  );
+  return {
+    offset,
+    point,
+    residuals,
+    rmsError: Math.sqrt(
+      residuals.reduce((sum, residual) => sum + residual ** 2, 0) /
+        residuals.length
+    ),
+    maxError: Math.max(...residuals),
+  };
+}
+
+/**
+ * The tools the arm can carry, and which one is mounted. Selecting a tool sets the robot's
+ * tool frame, so poses, linear moves and jogs all refer to its tool center point.
+ */
+export class ToolManager {
+  private tools: Map<string, Tool> = new Map([[FLANGE_TOOL.name, FLANGE_TOOL]]);
+  private active = FLANGE_TOOL.name;
+
+  constructor(private robot: Robot) {}
+
+  /**
+   * The tool in use.
+   */
+  get Active(): Tool {
+    return this.get(this.active);
+  }
+
+  /**
+   * All tools, sorted by name.
+   */
+  public list(): Tool[] {
+    return [...this.tools.values()].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * @throws If there is no tool with that name.
+   */
+  public get(name: string): Tool {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`No tool named "${name}".`);
+    }
+    return tool;
+  }
+
+  /**
+   * Adds a tool, or updates the one with the same name. Updating the active tool
+   * applies the new TCP straight away.
+   */
+  public add(tool: Tool) {
+    validateTool(tool);
+    if (tool.name === FLANGE_TOOL.name) {
+      throw new Error(`The "${FLANGE_TOOL.name}" tool cannot be changed.`);
+    }
+    this.tools.set(tool.name, { ...tool, tcp: [...tool.tcp] });
+    if (tool.name === this.active) {
+      this.select(tool.name);
+    }
+  }
+
+  public remove(name: string) {
+    this.get(name);
+    if (name === FLANGE_TOOL.name) {
+      throw new Error(`The "${FLANGE_TOOL.name}" tool cannot be removed.`);
+    }
+    if (name === this.active) {
+      throw new Error(`Tool "${name}" is in use, select another one first.`);
+    }
+    this.tools.delete(name);
+  }
+
+  /**
+   * Makes a tool the active one.
+   */
+  public select(name: string) {
+    const tool = this.get(name);
+    this.robot.setToolFrame(tool.tcp);
+    this.active = name;
+  }
+
+  /**
+   * Calibrates a tool's TCP position from joint configurations that each touch the tool tip to
+   * the same fixed point, and stores the result. The TCP orientation and mass of an existing
+   * tool are kept.
+   * @param name The tool to calibrate, created if it does not exist.
+   * @param jointConfigurations Joint angles in degrees (J1 to J6), at least four.
+   * @returns The calibration with its residual errors.
+   */
+  public calibrate(
+    name: string,
+    jointConfigurations: number[][]
+  ): TcpCalibration {
+    const calibration = calibrateTcp(
+      jointConfigurations.map((joints) => this.robot.flangeFrameOf(joints))
+    );
+    const existing = this.tools.get(name);
+    const [, , , rx, ry, rz] = existing?.tcp ?? FLANGE_TOOL.tcp;
+    this.add({
+      ...existing,
+      name,
+      tcp: [...calibration.offset, rx, ry, rz],
+    });
+    return calibration;
+  }
+}
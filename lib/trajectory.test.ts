@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createTrajectory, exportTrajectory } from "./trajectory.ts";
+import { Robot, type TPose } from "./robot.ts";
+import { SimulatedFirmata } from "./SimulatedFirmata.ts";
+import { type FirmataType } from "./Firmata.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+import { runFor } from "./testing.ts";
+
+describe("createTrajectory", () => {
+  const poseOf = (joints: number[]) => [...joints] as TPose;
+
+  it("should work out velocities, accelerations and peaks", () => {
+    const trajectory = createTrajectory(
+      "test",
+      [
+        [0, 0, 0, 0, 0, 0],
+        [1, 0, 0, 0, 0, 0],
+        [3, 0, 0, 0, 0, 0],
+        [5, 0, 0, 0, 0, 0],
+      ],
+      0.5,
+      poseOf
+    );
+    expect(trajectory.duration).toBe(1.5);
+    expect(trajectory.samples.map((sample) => sample.time)).toEqual([
+      0, 0.5, 1, 1.5,
+    ]);
+    expect(trajectory.samples.map((sample) => sample.velocities[0])).toEqual([
+      0, 2, 4, 4,
+    ]);
+    expect(trajectory.samples.map((sample) => sample.accelerations[0])).toEqual(
+      [0, 4, 4, 0]
+    );
+    expect(trajectory.samples[2].pose).toEqual([3, 0, 0, 0, 0, 0]);
+
+    // From 2 to 4 degrees per second, setting off and stopping are left to the steppers
+    expect(trajectory.peaks[0]).toEqual({
+      joint: "J1",
+      velocity: 4,
+      maxSpeed: JOINT_CONFIGS.J1.MAX_SPEED,
+      acceleration: 4,
+      maxAcceleration: JOINT_CONFIGS.J1.MAX_ACCELERATION,
+      withinLimits: true,
+    });
+    expect(trajectory.peaks[1].velocity).toBe(0);
+    expect(trajectory.withinLimits).toBe(true);
+  });
+
+  it("should flag a joint going faster than its MAX_SPEED", () => {
+    const { MAX_SPEED } = JOINT_CONFIGS.J1;
+    const trajectory = createTrajectory(
+      "test",
+      [
+        [0, 0, 0, 0, 0, 0],
+        [MAX_SPEED * 2, 0, 0, 0, 0, 0],
+      ],
+      1,
+      poseOf
+    );
+    expect(trajectory.peaks[0].velocity).toBe(MAX_SPEED * 2);
+    expect(trajectory.peaks[0].withinLimits).toBe(false);
+    expect(trajectory.peaks[1].withinLimits).toBe(true);
+    expect(trajectory.withinLimits).toBe(false);
+  });
+});
+
+describe("Dry runs on a simulated board", () => {
+  let sim: SimulatedFirmata;
+  let robot: Robot;
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "trajectory-"));
+    vi.useFakeTimers();
+    sim = new SimulatedFirmata(Object.values(JOINT_CONFIGS));
+    robot = new Robot(sim as unknown as FirmataType);
+    await runFor(robot.home(), 120_000);
+    await runFor(robot.rotateBy([5, 10, 10, 5, 60, 5]), 30_000);
+  });
+
+  afterEach(async () => {
+    sim.close();
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should plan a linear move without touching the board", async () => {
+    const methods = [
+      "accelStepperTo",
+      "accelStepperStep",
+      "accelStepperReportPosition",
+      "multiStepperTo",
+      "encoderReportPosition",
+    ] as const;
+    const writes = methods.map((method) => vi.spyOn(sim, method));
+    const log = vi.spyOn(console, "log");
+    const joints = [robot.J1, robot.J2, robot.J3, robot.J4, robot.J5, robot.J6];
+    const start = joints.map((joint) => joint.Degrees);
+    const commanded = joints.map((joint) => joint.Commanded);
+    const [x, y, z, rx, ry, rz] = robot.Pose;
+
+    const trajectory = robot.planMoveToLinearly([
+      x + 20,
+      y,
+      z - 30,
+      rx,
+      ry,
+      rz,
+    ]);
+
+    writes.forEach((write) => expect(write).not.toHaveBeenCalled());
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+    expect(robot.State).toBe("Idle");
+    expect(joints.map((joint) => joint.Commanded)).toEqual(commanded);
+    expect(trajectory.command).toBe("moveToLinearly");
+    expect(trajectory.period).toBe(0.02);
+    expect(trajectory.duration).toBeGreaterThanOrEqual(0.5);
+    const first = trajectory.samples[0];
+    const last = trajectory.samples[trajectory.samples.length - 1];
+    first.joints.forEach((angle, index) =>
+      expect(angle).toBeCloseTo(start[index], 6)
+    );
+    expect(last.time).toBeCloseTo(trajectory.duration, 9);
+    expect(last.pose).toEqual(
+      [x + 20, y, z - 30, rx, ry, rz].map((value) => expect.closeTo(value, 3))
+    );
+    // The tool moves along the line all the way
+    const middle =
+      trajectory.samples[Math.floor(trajectory.samples.length / 2)];
+    const along = (middle.pose[0] - x) / 20;
+    expect(middle.pose[2] - z).toBeCloseTo(-30 * along, 1);
+    expect(trajectory.peaks.map((peak) => peak.joint)).toEqual([
+      "J1",
+      "J2",
+      "J3",
+      "J4",
+      "J5",
+      "J6",
+    ]);
+    // J2 lifts the most, well within its 5 degrees per second squared
+    expect(trajectory.peaks[1].velocity).toBeCloseTo(12.1, 1);
+    expect(trajectory.peaks[1].acceleration).toBeCloseTo(2, 1);
+    expect(trajectory.withinLimits).toBe(true);
+
+    // Running it streams the same joint angles
+    await runFor(robot.moveToLinearly([x + 20, y, z - 30, rx, ry, rz]), 30_000);
+    last.joints.forEach((angle, index) =>
+      expect(joints[index].Degrees).toBeCloseTo(angle, 0)
+    );
+  });
+
+  it("should reject a target out of reach the way the move would", () => {
+    const [x, y, z, rx, ry, rz] = robot.Pose;
+    expect(() =>
+      robot.planMoveToLinearly([x, y, z + 1_000, rx, ry, rz])
+    ).toThrow(/No inverse kinematics solution/);
+  });
+
+  it("should export the trajectory as CSV and JSON", async () => {
+    const [x, y, z, rx, ry, rz] = robot.Pose;
+    const trajectory = robot.planMoveToLinearly([x, y + 10, z, rx, ry, rz]);
+
+    await exportTrajectory(trajectory, join(directory, "move.csv"));
+    const [header, ...rows] = (
+      await readFile(join(directory, "move.csv"), "utf8")
+    )
+      .trim()
+      .split("\n");
+    expect(header).toBe(
+      "time,J1,J2,J3,J4,J5,J6,x,y,z,rx,ry,rz," +
+        "velocity_J1,velocity_J2,velocity_J3,velocity_J4,velocity_J5,velocity_J6," +
+        "acceleration_J1,acceleration_J2,acceleration_J3,acceleration_J4,acceleration_J5,acceleration_J6"
+    );
+    expect(rows).toHaveLength(trajectory.samples.length);
+    expect(rows[1].split(",").map(Number)).toEqual([
+      trajectory.samples[1].time,
+      ...trajectory.samples[1].joints,
+      ...trajectory.samples[1].pose,
+      ...trajectory.samples[1].velocities,
+      ...trajectory.samples[1].accelerations,
+    ]);
+
+    await exportTrajectory(trajectory, join(directory, "move.json"));
+    expect(
+      JSON.parse(await readFile(join(directory, "move.json"), "utf8"))
+    ).toEqual(trajectory);
+  });
+});
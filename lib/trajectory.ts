@@ -0,0 +1,170 @@
+import { writeFile } from "fs/promises";
+import { extname } from "path";
+import { JOINT_CONFIGS } from "../config.ts";
+import { type TPose } from "./robot.ts";
+
+/**
+ * One control loop step of a planned trajectory.
+ */
+export type TrajectorySample = {
+  /**
+   * Seconds since the start of the move
+   */
+  time: number;
+  /**
+   * Joint angles in degrees (J1 to J6)
+   */
+  joints: number[];
+  /**
+   * Tool pose [x, y, z, rx, ry, rz]
+   */
+  pose: TPose;
+  /**
+   * Joint velocities in degrees per second since the previous sample
+   */
+  velocities: number[];
+  /**
+   * Joint accelerations in degrees per second squared since the previous sample
+   */
+  accelerations: number[];
+};
+
+/**
+ * The fastest a joint goes along a trajectory, against the limits in its config.
+ */
+export type JointPeak = {
+  joint: string;
+  /**
+   * In degrees per second, ignoring the direction
+   */
+  velocity: number;
+  maxSpeed: number;
+  /**
+   * In degrees per second squared, ignoring the direction
+   */
+  acceleration: number;
+  maxAcceleration: number;
+  withinLimits: boolean;
+};
+
+/**
+ * A move as it would be streamed to the joints, planned without moving.
+ */
+export type Trajectory = {
+  /**
+   * The move it was planned for, e.g. "moveToLinearly"
+   */
+  command: string;
+  /**
+   * Total time in seconds
+   */
+  duration: number;
+  /**
+   * Time between samples in seconds
+   */
+  period: number;
+  samples: TrajectorySample[];
+  peaks: JointPeak[];
+  /**
+   * Whether every joint stays within its MAX_SPEED and MAX_ACCELERATION
+   */
+  withinLimits: boolean;
+};
+
+const JOINTS = ["J1", "J2", "J3", "J4", "J5", "J6"];
+const POSE = ["x", "y", "z", "rx", "ry", "rz"];
+
+/**
+ * Works out the velocities, accelerations and peaks of sampled joint angles. The arm is at
+ * rest before the first sample and after the last. The steppers ramp up to the first velocity
+ * and down from the last one with their own acceleration, so setting off and stopping do not
+ * count toward the peaks.
+ * @param command The move the setpoints are for.
+ * @param setpoints Joint angles in degrees (J1 to J6), one per period.
+ * @param period Time between setpoints in seconds.
+ * @param poseOf The tool pose at joint angles.
+ */
+export function createTrajectory(
+  command: string,
+  setpoints: number[][],
+  period: number,
+  poseOf: (jointAngles: number[]) => TPose
+): Trajectory {
+  const samples: TrajectorySample[] = [];
+  setpoints.forEach((joints, i) => {
+    const previous = samples[i - 1];
+    const velocities = previous
+      ? joints.map((angle, j) => (angle - previous.joints[j]) / period)
+      : joints.map(() => 0);
+    const accelerations = previous
+      ? velocities.map(
+          (velocity, j) => (velocity - previous.velocities[j]) / period
+        )
+      : joints.map(() => 0);
+    samples.push({
+      time: i * period,
+      joints,
+      pose: poseOf(joints),
+      velocities,
+      accelerations,
+    });
+  });
+
+  const peaks = JOINTS.slice(0, setpoints[0]?.length ?? 0).map(
+    (joint, j): JointPeak => {
+      const { MAX_SPEED, MAX_ACCELERATION } = JOINT_CONFIGS[joint];
+      const velocity = Math.max(
+        ...samples.map((sample) => Math.abs(sample.velocities[j]))
+      );
+      // The first step sets off from rest
+      const acceleration = Math.max(
+        0,
+        ...samples.slice(2).map((sample) => Math.abs(sample.accelerations[j]))
+      );
+      return {
+        joint,
+        velocity,
+        maxSpeed: MAX_SPEED,
+        acceleration,
+        maxAcceleration: MAX_ACCELERATION,
+        withinLimits: velocity <= MAX_SPEED && acceleration <= MAX_ACCELERATION,
+      };
+    }
+  );
+  return {
+    command,
+    duration: (samples.length - 1) * period,
+    period,
+    samples,
+    peaks,
+    withinLimits: peaks.every((peak) => peak.withinLimits),
+  };
+}
+
+/**
+ * Writes a trajectory for plotting, CSV with one row per sample for .csv files and the whole
+ * trajectory as JSON otherwise.
+ */
+export async function exportTrajectory(trajectory: Trajectory, path: string) {
+  if (extname(path).toLowerCase() !== ".csv") {
+    await writeFile(path, JSON.stringify(trajectory, null, 2));
+    return;
+  }
+  const columns = [
+    "time",
+    ...JOINTS,
+    ...POSE,
+    ...JOINTS.map((joint) => `velocity_${joint}`),
+    ...JOINTS.map((joint) => `acceleration_${joint}`),
+  ];
+  const rows = trajectory.samples.map((sample) =>
+    [
+      sample.time,
+      ...sample.joints,
+      ...sample.pose,
+      ...sample.velocities,
+      ...sample.accelerations,
+    ].join(",")
+  );
+  await writeFile(path, `${[columns.join(","), ...rows].join("\n")}\n`);
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { exportURDF, loadURDF, parseURDF, toURDF } from "./urdf.ts";
+import { createKinematics, DEFAULT_DH_PARAMETERS } from "./kinematics.ts";
+import { type TPose } from "./robot.ts";
+import { JOINT_CONFIGS } from "../config.ts";
+
+const HALF_PI = (Math.PI / 2).toFixed(12);
+
+const CONFIGURATIONS = [
+  [0, 0, 0, 0, 0, 0],
+  [30, -20, 15, 45, 60, -90],
+  [-100, 40, -60, -120, -30, 170],
+];
+
+function expectSameMatrix(actual: number[][], expected: number[][]) {
+  actual.forEach((row, i) =>
+    row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], 6))
+  );
+}
+
+function joint(
+  name: string,
+  type: string,
+  parent: string,
+  child: string,
+  origin: string
+) {
+  return `<joint name="${name}" type="${type}"><parent link="${parent}"/><child link="${child}"/>${origin}<axis xyz="0 0 1"/></joint>`;
+}
+
+describe("URDF", () => {
+  const tool: TPose = [10, -5, 120, 15, 45, 30];
+
+  it("should write the DH table as revolute joints with the joint limits", () => {
+    const urdf = toURDF({ name: "ar4", tool });
+
+    expect(urdf).toContain('<robot name="ar4">');
+    expect(urdf.match(/type="revolute"/g)).toHaveLength(6);
+    expect(urdf.match(/type="fixed"/g)).toHaveLength(2);
+    // J1 turns from -170 to 115 degrees at up to 20 degrees per second
+    expect(urdf).toContain(
+      '<limit lower="-2.967059728" upper="2.00712864" velocity="0.34906585" effort="0"/>'
+    );
+    // d and a of J1 in m, then its alpha and the theta offset of J2
+    expect(urdf).toMatch(
+      /<joint name="J2" type="revolute">\s*<parent link="link1"\/>\s*<child link="link2"\/>\s*<origin xyz="0.065 0 0.184"/
+    );
+    expect(urdf).toContain('<child link="tool0"/>');
+  });
+
+  it("should read its own URDF back into the same kinematics", () => {
+    const model = parseURDF(toURDF({ name: "ar4", tool }));
+
+    expect(model.name).toBe("ar4");
+    Object.entries(DEFAULT_DH_PARAMETERS).forEach(([name, params]) => {
+      expect(model.dh[name].d).toBeCloseTo(params.d, 6);
+      expect(model.dh[name].a).toBeCloseTo(params.a, 6);
+      expect(model.dh[name].alpha).toBeCloseTo(params.alpha, 6);
+      // 180 and -180 degrees are the same offset
+      expect(
+        Math.cos(
+          ((model.dh[name].thetaOffset - params.thetaOffset) * Math.PI) / 180
+        )
+      ).toBeCloseTo(1, 9);
+    });
+    model.tool.forEach((value, index) =>
+      expect(value).toBeCloseTo(tool[index], 6)
+    );
+    expect(model.joints.map((joint) => joint.name)).toEqual([
+      "J1",
+      "J2",
+      "J3",
+      "J4",
+      "J5",
+      "J6",
+    ]);
+    model.joints.forEach(({ name, range, maxSpeed }) => {
+      expect(range[0]).toBeCloseTo(JOINT_CONFIGS[name].RANGE[0], 6);
+      expect(range[1]).toBeCloseTo(JOINT_CONFIGS[name].RANGE[1], 6);
+      expect(maxSpeed).toBeCloseTo(JOINT_CONFIGS[name].MAX_SPEED, 6);
+    });
+
+    const kinematics = createKinematics();
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    kinematics.setToolFrame(
+      tool[0],
+      tool[1],
+      tool[2],
+      toRadians(tool[3]),
+      toRadians(tool[4]),
+      toRadians(tool[5])
+    );
+    CONFIGURATIONS.forEach((angles) =>
+      expectSameMatrix(
+        model.kinematics.forwardKinematics(angles),
+        kinematics.forwardKinematics(angles)
+      )
+    );
+  });
+
+  it("should import a chain written another way, merging fixed joints", () => {
+    const urdf = `<?xml version="1.0"?>
+<robot name="hand-written">
+  <!-- The base height on the first joint, the J1 offsets on a link of their own -->
+  ${joint(
+    "shoulder_pan",
+    "revolute",
+    "base",
+    "l1",
+    '<origin xyz="0 0 0.184"/>'
+  )}
+  ${joint(
+    "offset",
+    "fixed",
+    "l1",
+    "l1a",
+    `<origin xyz="0.065 0 0" rpy="-${HALF_PI} 0 0"/>`
+  )}
+  ${joint(
+    "shoulder_lift",
+    "revolute",
+    "l1a",
+    "l2",
+    `<origin rpy="0 0 -${HALF_PI}"/>`
+  )}
+  ${joint(
+    "elbow",
+    "revolute",
+    "l2",
+    "l3",
+    `<origin xyz="0.3 0 0" rpy="0 0 ${Math.PI.toFixed(12)}"/>`
+  )}
+  ${joint(
+    "wrist_1",
+    "continuous",
+    "l3",
+    "l4",
+    `<origin rpy="${HALF_PI} 0 0"/>`
+  )}
+  ${joint(
+    "wrist_2",
+    "revolute",
+    "l4",
+    "l5",
+    `<origin xyz="0 0 0.227328" rpy="-${HALF_PI} 0 0"/>`
+  )}
+  ${joint("wrist_3", "revolute", "l5", "l6", `<origin rpy="${HALF_PI} 0 0"/>`)}
+  ${joint("flange", "fixed", "l6", "flange", '<origin xyz="0 0 0.043"/>')}
+  ${joint("tool", "fixed", "flange", "tip", '<origin xyz="0 0 0.1"/>')}
+  <transmission name="t1"><joint name="shoulder_pan"/></transmission>
+</robot>`;
+    const model = parseURDF(urdf);
+
+    expect(model.joints.map((joint) => joint.name)).toEqual([
+      "shoulder_pan",
+      "shoulder_lift",
+      "elbow",
+      "wrist_1",
+      "wrist_2",
+      "wrist_3",
+    ]);
+    expect(model.joints[0].range).toBeUndefined();
+    model.tool.forEach((value, index) =>
+      expect(value).toBeCloseTo([0, 0, 100, 0, 0, 0][index], 6)
+    );
+    const kinematics = createKinematics(DEFAULT_DH_PARAMETERS);
+    kinematics.setToolFrame(0, 0, 100, 0, 0, 0);
+    CONFIGURATIONS.forEach((angles) =>
+      expectSameMatrix(
+        model.kinematics.forwardKinematics(angles),
+        kinematics.forwardKinematics(angles)
+      )
+    );
+  });
+
+  it("should refuse chains that are not DH-shaped", () => {
+    const origin = '<origin xyz="0 0 0.1"/>';
+    const chain = (last: string) =>
+      `<robot name="r">${[1, 2, 3, 4, 5]
+        .map((i) => joint(`j${i}`, "revolute", `l${i - 1}`, `l${i}`, origin))
+        .join("")}${last}</robot>`;
+
+    expect(() => parseURDF("<urdf/>")).toThrow("Not a URDF");
+    expect(() => parseURDF(chain(""))).toThrow(
+      "URDF has 5 revolute joints, the arm has 6."
+    );
+    expect(() =>
+      parseURDF(chain(joint("j6", "prismatic", "l5", "l6", origin)))
+    ).toThrow('Joint "j6" is prismatic');
+    expect(() =>
+      parseURDF(
+        chain(
+          joint("j6", "revolute", "l5", "l6", origin) +
+            joint("j7", "revolute", "l5", "l7", origin)
+        )
+      )
+    ).toThrow('URDF branches at link "l5"');
+    expect(() =>
+      parseURDF(
+        chain(
+          joint("j6", "revolute", "l5", "l6", origin).replace("0 0 1", "1 0 0")
+        )
+      )
+    ).toThrow('Joint "j6" rotates about [1, 0, 0]');
+    // An offset along y has no DH parameter
+    expect(() =>
+      parseURDF(
+        chain(joint("j6", "revolute", "l5", "l6", '<origin xyz="0 0.05 0.1"/>'))
+      )
+    ).toThrow('The origin of "j6" cannot be written as DH parameters');
+  });
+
+  it("should write and load URDF files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "urdf-"));
+    try {
+      const path = join(directory, "arm.urdf");
+      await exportURDF(path, { tool });
+      const model = await loadURDF(path);
+      expect(model.name).toBe("arm");
+      expect(model.dh.J4.d).toBeCloseTo(227.328, 6);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
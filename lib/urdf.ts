@@ -0,0 +1,447 @@
+import { readFile, writeFile } from "fs/promises";
+import { multiply } from "mathjs";
+import { JOINT_CONFIGS, type MotorConfig } from "../config.ts";
+import {
+  createKinematics,
+  type DHDescription,
+  getDHParameters,
+  Kinematics,
+} from "./kinematics.ts";
+import { type TPose } from "./robot.ts";
+
+export type URDFOptions = {
+  /**
+   * The robot name in the URDF
+   */
+  name?: string;
+  /**
+   * The DH table, the current one by default
+   */
+  dh?: Record<string, DHDescription>;
+  /**
+   * The tool center point relative to the flange [x, y, z, rx, ry, rz], rotations in degrees
+   */
+  tool?: TPose;
+  /**
+   * Where the joint limits come from, JOINT_CONFIGS by default
+   */
+  joints?: Record<string, MotorConfig>;
+};
+
+/**
+ * A revolute joint of an imported URDF, limits in degrees and degrees per second.
+ */
+export type URDFJoint = {
+  name: string;
+  range?: [number, number];
+  maxSpeed?: number;
+};
+
+/**
+ * The revolute chain of a URDF as DH parameters.
+ */
+export type URDFModel = {
+  name: string;
+  dh: Record<string, DHDescription>;
+  /**
+   * The tool center point relative to the flange [x, y, z, rx, ry, rz], rotations in degrees
+   */
+  tool: TPose;
+  /**
+   * The revolute joints from the base to the flange
+   */
+  joints: URDFJoint[];
+  /**
+   * Kinematics with the DH parameters and tool frame set
+   */
+  kinematics: Kinematics;
+};
+
+type Element = {
+  name: string;
+  type: string;
+  parent: string;
+  child: string;
+  origin: number[][];
+  axis: number[];
+  limit: Record<string, number>;
+};
+
+const JOINT_NAMES = ["J1", "J2", "J3", "J4", "J5", "J6"];
+// URDF numbers are written to 9 decimals, in m and rad
+const TOLERANCE = 1e-6;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+function format(...values: number[]): string {
+  return values
+    .map((value) => {
+      const rounded = Number(value.toFixed(9));
+      // No "-0"
+      return rounded === 0 ? 0 : rounded;
+    })
+    .join(" ");
+}
+
+/**
+ * URDF roll, pitch and yaw in radians of a rotation, R = Rz(yaw) Ry(pitch) Rx(roll) like
+ * Kinematics.createHomogeneousMatrix(), with the yaw left at 0 when the pitch is ±90°.
+ */
+function rpyOf(matrix: number[][]): [number, number, number] {
+  const cosPitch = Math.hypot(matrix[0][0], matrix[1][0]);
+  const pitch = Math.atan2(-matrix[2][0], cosPitch);
+  if (cosPitch < 1e-9) {
+    return [Math.atan2(-matrix[1][2], matrix[1][1]), pitch, 0];
+  }
+  return [
+    Math.atan2(matrix[2][1], matrix[2][2]),
+    pitch,
+    Math.atan2(matrix[1][0], matrix[0][0]),
+  ];
+}
+
+function origin(xyz: number[], rotation: number[][]): string {
+  return `<origin xyz="${format(...xyz)}" rpy="${format(
+    ...rpyOf(rotation)
+  )}"/>`;
+}
+
+/**
+ * Generates a URDF of the arm from its DH table and tool frame, to load it into robotics viewers
+ * and planners.
+ *
+ * Every joint rotates about the z axis of its frame, which is the DH frame of the joint before
+ * turned by the theta offset: the origin of a joint holds the d, a and alpha of the joint before
+ * and its own theta offset. The flange link is the last DH frame and tool0 the tool center point.
+ * Lengths are in m and angles in rad, the joint limits come from RANGE and MAX_SPEED.
+ */
+export function toURDF(options: URDFOptions = {}): string {
+  const {
+    name = "arm",
+    dh = getDHParameters(),
+    tool = [0, 0, 0, 0, 0, 0],
+    joints = JOINT_CONFIGS,
+  } = options;
+  const names = Object.keys(dh);
+  // Rx(alpha) Rz(theta), createHomogeneousMatrix() turns about z last
+  const rotation = (alpha: number, theta: number): number[][] =>
+    multiply(
+      Kinematics.createHomogeneousMatrix(0, 0, 0, alpha, 0, 0),
+      Kinematics.createHomogeneousMatrix(0, 0, 0, 0, 0, theta)
+    );
+  const link = (index: number) =>
+    index < 0 ? "base_link" : `link${index + 1}`;
+
+  const lines = [
+    `<?xml version="1.0"?>`,
+    `<!-- Generated from the DH parameters, lengths in m and angles in rad -->`,
+    `<robot name="${name}">`,
+    `  <link name="base_link"/>`,
+    ...names.map((_, index) => `  <link name="${link(index)}"/>`),
+    `  <link name="flange"/>`,
+    `  <link name="tool0"/>`,
+  ];
+  names.forEach((joint, index) => {
+    const previous = dh[names[index - 1]] ?? { d: 0, a: 0, alpha: 0 };
+    const config = joints[joint];
+    lines.push(
+      `  <joint name="${joint}" type="revolute">`,
+      `    <parent link="${link(index - 1)}"/>`,
+      `    <child link="${link(index)}"/>`,
+      `    ${origin(
+        [previous.a / 1000, 0, previous.d / 1000],
+        rotation(toRadians(previous.alpha), toRadians(dh[joint].thetaOffset))
+      )}`,
+      `    <axis xyz="0 0 1"/>`
+    );
+    if (config) {
+      const [min, max] = config.RANGE;
+      // Stepper drivers have no torque rating to give as effort
+      lines.push(
+        `    <limit lower="${format(toRadians(min))}" upper="${format(
+          toRadians(max)
+        )}" velocity="${format(toRadians(config.MAX_SPEED))}" effort="0"/>`
+      );
+    }
+    lines.push(`  </joint>`);
+  });
+  const last = dh[names[names.length - 1]];
+  const [x, y, z, rx, ry, rz] = tool;
+  lines.push(
+    `  <joint name="${names[names.length - 1]}_flange" type="fixed">`,
+    `    <parent link="${link(names.length - 1)}"/>`,
+    `    <child link="flange"/>`,
+    `    ${origin(
+      [last.a / 1000, 0, last.d / 1000],
+      rotation(toRadians(last.alpha), 0)
+    )}`,
+    `  </joint>`,
+    `  <joint name="flange_tool0" type="fixed">`,
+    `    <parent link="flange"/>`,
+    `    <child link="tool0"/>`,
+    `    ${origin(
+      [x / 1000, y / 1000, z / 1000],
+      Kinematics.createHomogeneousMatrix(
+        0,
+        0,
+        0,
+        toRadians(rx),
+        toRadians(ry),
+        toRadians(rz)
+      )
+    )}`,
+    `  </joint>`,
+    `</robot>`
+  );
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes toURDF() to a file.
+ */
+export async function exportURDF(path: string, options: URDFOptions = {}) {
+  await writeFile(path, toURDF(options));
+}
+
+function attributes(tag: string): Record<string, string> {
+  return Object.fromEntries(
+    [...tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)].map(
+      ([, name, double, single]) => [name, double ?? single]
+    )
+  );
+}
+
+function numbers(value: string | undefined, fallback: number[]): number[] {
+  return value === undefined ? fallback : value.trim().split(/\s+/).map(Number);
+}
+
+function parseJoint(tag: string, body: string): Element {
+  const { name, type } = attributes(tag);
+  const child = (element: string) => {
+    const match = body.match(new RegExp(`<${element}\\b([^>]*)>`));
+    return match ? attributes(match[1]) : undefined;
+  };
+  const originTag = child("origin") ?? {};
+  const [x, y, z] = numbers(originTag.xyz, [0, 0, 0]);
+  const [roll, pitch, yaw] = numbers(originTag.rpy, [0, 0, 0]);
+  const limit = child("limit") ?? {};
+  return {
+    name,
+    type,
+    parent: child("parent")?.link,
+    child: child("child")?.link,
+    // URDF lengths are in m
+    origin: Kinematics.createHomogeneousMatrix(
+      x * 1000,
+      y * 1000,
+      z * 1000,
+      roll,
+      pitch,
+      yaw
+    ),
+    // The URDF default
+    axis: numbers(child("axis")?.xyz, [1, 0, 0]),
+    limit: Object.fromEntries(
+      Object.entries(limit).map(([key, value]) => [key, Number(value)])
+    ),
+  };
+}
+
+/**
+ * The joints from the root link to the tip, in order.
+ */
+function serialChain(joints: Element[]): Element[] {
+  const children = new Set(joints.map((joint) => joint.child));
+  const roots = [...new Set(joints.map((joint) => joint.parent))].filter(
+    (link) => !children.has(link)
+  );
+  if (roots.length !== 1) {
+    throw new Error(
+      `URDF must have one root link, found ${roots.join(", ") || "none"}.`
+    );
+  }
+  const chain: Element[] = [];
+  let link = roots[0];
+  for (;;) {
+    const next = joints.filter((joint) => joint.parent === link);
+    if (next.length === 0) return chain;
+    if (next.length > 1) {
+      throw new Error(
+        `URDF branches at link "${link}", only serial chains can be imported.`
+      );
+    }
+    chain.push(next[0]);
+    link = next[0].child;
+  }
+}
+
+/**
+ * Splits a transform into Tz(d) Tx(a) Rx(alpha) Rz(theta), lengths in mm and angles in degrees.
+ * @throws If it has no such form.
+ */
+function dhOf(matrix: number[][], where: string) {
+  const alpha = Math.atan2(-matrix[1][2], matrix[2][2]);
+  const theta = Math.atan2(-matrix[0][1], matrix[0][0]);
+  const a = matrix[0][3];
+  const d = matrix[2][3];
+  const expected = multiply(
+    Kinematics.createHomogeneousMatrix(a, 0, d, alpha, 0, 0),
+    Kinematics.createHomogeneousMatrix(0, 0, 0, 0, 0, theta)
+  );
+  const fits = matrix.every((row, i) =>
+    row.every(
+      (value, j) =>
+        // Lengths are in mm here
+        Math.abs(value - expected[i][j]) <
+        (j === 3 ? TOLERANCE * 1000 : TOLERANCE)
+    )
+  );
+  if (!fits) {
+    throw new Error(
+      `${where} cannot be written as DH parameters, the joint axes have to follow the DH convention.`
+    );
+  }
+  return { d, a, alpha: toDegrees(alpha), theta: toDegrees(theta) };
+}
+
+/**
+ * Reads the revolute chain of a URDF back into DH parameters and a tool frame.
+ *
+ * The chain has to run from one root link through 6 revolute joints about their z axes, with
+ * origins of the form toURDF() writes. Fixed joints between them are merged, the first fixed
+ * joint after the last revolute one is the flange, and the ones after it make up the tool.
+ * @param xml The URDF.
+ * @throws If the chain cannot be written as DH parameters.
+ */
+export function parseURDF(xml: string): URDFModel {
+  const content = xml
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<transmission\b[\s\S]*?<\/transmission>/g, "")
+    .replace(/<gazebo\b[\s\S]*?<\/gazebo>/g, "");
+  const robot = content.match(/<robot\b([^>]*)>/);
+  if (!robot) {
+    throw new Error("Not a URDF, there is no <robot> element.");
+  }
+  const elements = [
+    ...content.matchAll(/<joint\b([^>]*?)(?:\/>|>([\s\S]*?)<\/joint>)/g),
+  ].map(([, tag, body = ""]) => parseJoint(tag, body));
+  const chain = serialChain(elements);
+
+  // The transforms from the base and from every revolute joint to the next revolute joint
+  const segments: number[][][] = [];
+  const revolute: Element[] = [];
+  let tail: Element[] = [];
+  for (const joint of chain) {
+    if (joint.type === "fixed") {
+      tail.push(joint);
+      continue;
+    }
+    if (joint.type !== "revolute" && joint.type !== "continuous") {
+      throw new Error(
+        `Joint "${joint.name}" is ${joint.type}, only revolute and fixed joints can be imported.`
+      );
+    }
+    const [ax, ay, az] = joint.axis;
+    if (Math.abs(ax) > TOLERANCE || Math.abs(ay) > TOLERANCE || az <= 0) {
+      throw new Error(
+        `Joint "${joint.name}" rotates about [${joint.axis.join(
+          ", "
+        )}], only joints about their z axis can be imported.`
+      );
+    }
+    segments.push(
+      [...tail, joint].reduce<number[][]>(
+        (matrix, element) => multiply(matrix, element.origin),
+        Kinematics.createHomogeneousMatrix(0, 0, 0, 0, 0, 0)
+      )
+    );
+    revolute.push(joint);
+    tail = [];
+  }
+  if (revolute.length !== JOINT_NAMES.length) {
+    throw new Error(
+      `URDF has ${revolute.length} revolute joints, the arm has ${JOINT_NAMES.length}.`
+    );
+  }
+
+  // Rz and Tz commute, so the height of the first joint goes into its d
+  const base = dhOf(segments[0], `The origin of "${revolute[0].name}"`);
+  if (Math.abs(base.a) > TOLERANCE * 1000 || Math.abs(base.alpha) > TOLERANCE) {
+    throw new Error(
+      `The origin of "${revolute[0].name}" may only move along and turn about the z axis.`
+    );
+  }
+  const thetaOffsets = [base.theta];
+  const links = segments
+    .slice(1)
+    .map((segment, index) =>
+      dhOf(segment, `The origin of "${revolute[index + 1].name}"`)
+    );
+  links.forEach((link) => thetaOffsets.push(link.theta));
+  const [flange, ...tool] = tail;
+  const last = flange
+    ? dhOf(flange.origin, `The origin of "${flange.name}"`)
+    : { d: 0, a: 0, alpha: 0, theta: 0 };
+  links.push(last);
+  links[0] = { ...links[0], d: links[0].d + base.d };
+
+  const dh = Object.fromEntries(
+    JOINT_NAMES.map((joint, index) => [
+      joint,
+      {
+        thetaOffset: thetaOffsets[index],
+        d: links[index].d,
+        a: links[index].a,
+        alpha: links[index].alpha,
+      },
+    ])
+  );
+  // A theta left over at the flange turns the tool
+  const toolFrame = [flange, ...tool]
+    .slice(1)
+    .reduce<number[][]>(
+      (matrix, element) => multiply(matrix, element.origin),
+      Kinematics.createHomogeneousMatrix(0, 0, 0, 0, 0, toRadians(last.theta))
+    );
+  const [rx, ry, rz] = rpyOf(toolFrame);
+  const kinematics = createKinematics(dh);
+  kinematics.setToolFrame(
+    toolFrame[0][3],
+    toolFrame[1][3],
+    toolFrame[2][3],
+    rx,
+    ry,
+    rz
+  );
+  return {
+    name: attributes(robot[1]).name,
+    dh,
+    tool: [
+      toolFrame[0][3],
+      toolFrame[1][3],
+      toolFrame[2][3],
+      toDegrees(rx),
+      toDegrees(ry),
+      toDegrees(rz),
+    ],
+    joints: revolute.map((joint) => ({
+      name: joint.name,
+      ...(joint.limit.lower !== undefined &&
+        joint.limit.upper !== undefined && {
+          range: [toDegrees(joint.limit.lower), toDegrees(joint.limit.upper)],
+        }),
+      ...(joint.limit.velocity !== undefined && {
+        maxSpeed: toDegrees(joint.limit.velocity),
+      }),
+    })),
+    kinematics,
+  };
+}
+
+/**
+ * Reads a URDF file with parseURDF().
+ */
+export async function loadURDF(path: string): Promise<URDFModel> {
+  return parseURDF(await readFile(path, "utf8"));
+}
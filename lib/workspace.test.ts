@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  findZoneViolation,
+  isInZone,
+  validateZone,
+  type KeepOutZone,
+} from "./workspace.ts";
+
+describe("Keep-out zones", () => {
+  const box: KeepOutZone = {
+    name: "fixture",
+    type: "box",
+    min: [100, -50, 0],
+    max: [200, 50, 80],
+  };
+  const column: KeepOutZone = {
+    name: "column",
+    type: "cylinder",
+    center: [-300, 0],
+    radius: 40,
+    zMin: 0,
+    zMax: 1000,
+  };
+  const table: KeepOutZone = {
+    name: "table",
+    type: "plane",
+    point: [0, 0, -10],
+    normal: [0, 0, 1],
+  };
+
+  it("should tell whether a point is inside each kind of zone", () => {
+    expect(isInZone([150, 0, 40], box)).toBe(true);
+    expect(isInZone([200, 50, 80], box)).toBe(true);
+    expect(isInZone([150, 60, 40], box)).toBe(false);
+
+    expect(isInZone([-280, 30, 500], column)).toBe(true);
+    expect(isInZone([-250, 30, 500], column)).toBe(false);
+    expect(isInZone([-300, 0, 1001], column)).toBe(false);
+
+    expect(isInZone([500, 500, -11], table)).toBe(true);
+    expect(isInZone([500, 500, -9], table)).toBe(false);
+  });
+
+  it("should report the zone and the point that entered it", () => {
+    const zones = [box, column, table];
+    expect(
+      findZoneViolation(
+        { tool: [0, 0, 300], "wrist center": [0, 0, 400] },
+        zones
+      )
+    ).toBeUndefined();
+    expect(
+      findZoneViolation(
+        { tool: [0, 0, -20], "wrist center": [150, 0, 40] },
+        zones
+      )
+    ).toEqual({ zone: box, probe: "wrist center", point: [150, 0, 40] });
+  });
+
+  it("should reject zones that do not describe a volume", () => {
+    expect(() =>
+      validateZone({ ...box, min: [200, -50, 0], max: [100, 50, 80] })
+    ).toThrow(/min below its max/);
+    expect(() => validateZone({ ...column, radius: 0 })).toThrow(
+      /positive radius/
+    );
+    expect(() => validateZone({ ...table, normal: [0, 0, 0] })).toThrow(
+      /needs a normal/
+    );
+    [box, column, table].forEach((zone) =>
+      expect(() => validateZone(zone)).not.toThrow()
+    );
+  });
+});
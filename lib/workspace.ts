@@ -0,0 +1,113 @@
+type TPoint = [number, number, number]; // [x, y, z]
+
+/**
+ * A volume of the cell the arm must stay out of, in the base frame (mm).
+ * - box: axis-aligned, between two corners
+ * - cylinder: upright (along z), e.g. a column or a round fixture
+ * - plane: everything on the back side of the plane, opposite its normal, e.g. the
+ *   table top with point [0, 0, 0] and normal [0, 0, 1]
+ */
+export type KeepOutZone = { name: string } & (
+  | { type: "box"; min: TPoint; max: TPoint }
+  | {
+      type: "cylinder";
+      /**
+       * [x, y] of the cylinder's axis
+       */
+      center: [number, number];
+      radius: number;
+      zMin: number;
+      zMax: number;
+    }
+  | { type: "plane"; point: TPoint; normal: TPoint }
+);
+
+/**
+ * The point of the arm that is checked against the zones
+ */
+export type ZoneProbe = "tool" | "wrist center";
+
+export type ZoneViolation = {
+  zone: KeepOutZone;
+  probe: ZoneProbe;
+  point: TPoint;
+};
+
+/**
+ * Checks that a zone describes a volume, so a typo cannot turn a zone off.
+ * @throws If the zone is malformed.
+ */
+export function validateZone(zone: KeepOutZone) {
+  switch (zone.type) {
+    case "box":
+      if (zone.min.some((value, index) => value >= zone.max[index])) {
+        throw new Error(
+          `Keep-out box "${zone.name}" must have every min below its max.`
+        );
+      }
+      break;
+    case "cylinder":
+      if (zone.radius <= 0 || zone.zMin >= zone.zMax) {
+        throw new Error(
+          `Keep-out cylinder "${zone.name}" needs a positive radius and zMin below zMax.`
+        );
+      }
+      break;
+    case "plane":
+      if (zone.normal.every((value) => value === 0)) {
+        throw new Error(`Keep-out plane "${zone.name}" needs a normal.`);
+      }
+      break;
+    default:
+      throw new Error(
+        `Unknown keep-out zone type "${(zone as { type: string }).type}".`
+      );
+  }
+}
+
+/**
+ * Whether a point is inside a zone. Points on the boundary are inside.
+ */
+export function isInZone(point: TPoint, zone: KeepOutZone): boolean {
+  const [x, y, z] = point;
+  switch (zone.type) {
+    case "box":
+      return point.every(
+        (value, index) => value >= zone.min[index] && value <= zone.max[index]
+      );
+    case "cylinder":
+      return (
+        z >= zone.zMin &&
+        z <= zone.zMax &&
+        Math.hypot(x - zone.center[0], y - zone.center[1]) <= zone.radius
+      );
+    case "plane":
+      return (
+        zone.normal.reduce(
+          (sum, value, index) =>
+            sum + value * (point[index] - zone.point[index]),
+          0
+        ) <= 0
+      );
+  }
+}
+
+/**
+ * Finds the first zone any of the probed points is in.
+ * @param probes The points to check, by what they are.
+ * @param zones The zones to stay out of.
+ * @returns The violation, or undefined if every point is clear.
+ */
+export function findZoneViolation(
+  probes: Record<ZoneProbe, TPoint>,
+  zones: KeepOutZone[]
+): ZoneViolation | undefined {
+  for (const zone of zones) {
+    for (const probe of Object.keys(probes) as ZoneProbe[]) {
+      if (isInZone(probes[probe], zone)) {
+        return { zone, probe, point: probes[probe] };
+      }
+    }
+  }
+  return undefined;
+}
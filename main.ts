@@ -1,26 +1,164 @@
-import five from "johnny-five";
 import Firmata from "firmata";
-import { type FirmataType } from "./lib/Firmata.ts";
-import { Robot } from "./lib/robot.ts";
+import SerialPort from "serialport";
+import repl from "repl";
+import { readFileSync } from "fs";
+import { addEncoderSupport, type FirmataType } from "./lib/Firmata.ts";
+import { SimulatedFirmata } from "./lib/SimulatedFirmata.ts";
+import { Robot, type TPose } from "./lib/robot.ts";
 import { Kinematics } from "./lib/kinematics.ts";
+import { parseProgram, ProgramInterpreter } from "./lib/program.ts";
+import { TargetLibrary } from "./lib/targets.ts";
+import { ControlServer } from "./lib/server.ts";
+import { ConnectionSupervisor } from "./lib/connection.ts";
+import {
+  loadTelemetry,
+  replayTelemetry,
+  TelemetryRecorder,
+} from "./lib/telemetry.ts";
+import { exportTrajectory } from "./lib/trajectory.ts";
+import { exportURDF, loadURDF } from "./lib/urdf.ts";
+import { calibrateDH, type DHMeasurement } from "./lib/calibration.ts";
+import Encoder from "./lib/Encoder.js";
+import {
+  applyRobotDescription,
+  loadRobotDescription,
+  saveDHParameters,
+} from "./lib/description.ts";
+import { JOINT_CONFIGS } from "./config.ts";
 
-export const io = new Firmata("COM3") as unknown as FirmataType;
+// Run with SIMULATE=1 to drive a simulated arm instead of looking for the board
+const SIMULATE = process.env.SIMULATE === "1";
+// The robot description: pins, gearing, ranges, speeds, homing and DH parameters
+const ROBOT_DESCRIPTION = process.env.ROBOT_DESCRIPTION ?? "robot.yaml";
+// Set SERVER_PORT to also serve the REST and WebSocket control API
+const SERVER_PORT = process.env.SERVER_PORT;
 
-type BoardType = Omit<five.Board, "io"> & {
-  io: typeof io;
-};
-
-const board: BoardType = new five.Board({ io, debug: true });
-
-board.on("ready", function () {
-  const robot = new Robot();
+function createContext(io: FirmataType) {
+  const robot = new Robot(io);
   const kinematics = robot.kinematics;
-  board.repl.inject({
+  const targets = new TargetLibrary("targets.json", robot);
+  targets
+    .load()
+    .then((unreachable) =>
+      unreachable.forEach((target) =>
+        console.warn(
+          `Target "${target.name}" is out of range on ${target.outOfRange.join(
+            ", "
+          )}`
+        )
+      )
+    )
+    .catch((error) =>
+      console.error(
+        `Could not load the target library, starting without targets: ${error.message}`
+      )
+    );
+  const server = SERVER_PORT
+    ? new ControlServer(robot, { port: Number(SERVER_PORT) })
+    : undefined;
+  server
+    ?.listen()
+    .catch((error) =>
+      console.error(`Could not start the control server: ${error.message}`)
+    );
+  const context = {
     robot,
+    server,
     s: () => {
-      robot.halt();
+      robot.halt().catch((error) => console.error(error.message));
     },
     kinematics,
     Kinematics,
+    targets,
+    // e.g. recorder.start("move.csv"), then recorder.stop()
+    recorder: new TelemetryRecorder(robot),
+    // Plays the moves of a recording back, e.g. at half speed with replay("move.csv", 0.5)
+    replay: async (path: string, speedScale = 1) =>
+      replayTelemetry(robot, await loadTelemetry(path), { speedScale }),
+    // Plans a linear move without moving and writes it for plotting, e.g.
+    // dryRun([300, 0, 200, 180, 0, 180], "move.csv")
+    dryRun: async (target: TPose, path?: string, frame = "base") => {
+      const trajectory = robot.planMoveToLinearly(target, frame);
+      if (path) await exportTrajectory(trajectory, path);
+      return trajectory;
+    },
+    // Writes the arm with the current tool as a URDF, e.g. exportURDF("arm.urdf")
+    exportURDF: (path: string) => exportURDF(path, { tool: robot.Tool }),
+    // Reads a URDF into DH parameters and kinematics, e.g. to compare
+    // (await loadURDF("arm.urdf")).kinematics.forwardKinematics(angles) with kinematics
+    loadURDF,
+    // Pairs the joint angles now with the tool center point measured there, for calibrateDH
+    measurement: (position: [number, number, number]): DHMeasurement => ({
+      joints: [robot.J1, robot.J2, robot.J3, robot.J4, robot.J5, robot.J6].map(
+        (joint) => joint.Degrees
+      ),
+      position,
+    }),
+    // Corrects the DH parameters from measurements and saves them to the robot description,
+    // e.g. calibrateDH([measurement([412.3, 5.1, 220.8]), ...]), then restart to use them
+    calibrateDH: async (measurements: DHMeasurement[], save = true) => {
+      const calibration = calibrateDH(measurements, { tool: robot.Tool });
+      console.log(
+        `RMS error ${calibration.before.rmsError.toFixed(
+          3
+        )} mm before, ${calibration.after.rmsError.toFixed(3)} mm after`
+      );
+      // A ten-thousandth of a mm or degree is well below what can be measured
+      const rounded = Object.fromEntries(
+        Object.entries(calibration.dh).map(([name, params]) => [
+          name,
+          Object.fromEntries(
+            Object.entries(params).map(([field, value]) => [
+              field,
+              Math.round(value * 10_000) / 10_000,
+            ])
+          ) as typeof params,
+        ])
+      );
+      if (save) await saveDHParameters(ROBOT_DESCRIPTION, rounded);
+      return calibration;
+    },
+    // e.g. robot.jog.attachHandwheel(new Encoder(io, 30, 31)), on pins no joint uses
+    Encoder,
+    io,
+    // Checks a program file and returns an interpreter to run, step, pause or abort it
+    program: (path: string) =>
+      new ProgramInterpreter(
+        robot,
+        context.io,
+        parseProgram(readFileSync(path, "utf8"))
+      ),
+  };
+  return context;
+}
+
+const description = await loadRobotDescription(ROBOT_DESCRIPTION);
+applyRobotDescription(description);
+
+if (SIMULATE) {
+  const io = new SimulatedFirmata(
+    Object.values(JOINT_CONFIGS)
+  ) as unknown as FirmataType;
+  Object.assign(repl.start("XD6 (simulated) >> ").context, createContext(io));
+} else {
+  // Finds the board, and faults the robot and reconnects whenever the link is lost
+  const supervisor = new ConnectionSupervisor({
+    port: description.port === "auto" ? undefined : description.port,
+    listPorts: () => SerialPort.list(),
+    open: (path) =>
+      addEncoderSupport(new Firmata(path) as unknown as FirmataType),
+  });
+  const context = createContext(await supervisor.connect());
+  const replServer = repl.start("XD6 >> ");
+  Object.assign(replServer.context, context, { supervisor });
+
+  supervisor.on("lost", (reason) => context.robot.disconnect(reason));
+  supervisor.on("connected", (io: FirmataType) => {
+    context.robot.attachBoard(io);
+    context.io = io;
+    replServer.context.io = io;
+    console.warn(
+      `Reconnected on ${supervisor.Port}, home the robot before moving it`
+    );
   });
-});
+}